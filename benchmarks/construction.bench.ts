@@ -0,0 +1,139 @@
+import * as Union from '../src/index';
+
+import * as Baseline from './baseline/index';
+
+/**
+ * Benchmarks of the construction of union apis
+ *
+ * Run with `npm run bench`. Each case prints the mean time of an operation
+ * for unions of 10, 60 and 200 members with 3 variations each, next to the
+ * time of the previous construction when there is one, see
+ * `baseline/index.ts`.
+ */
+
+const variations = ['Created', 'Updated', 'Deleted'] as const;
+
+function typesOf(size: number) {
+  const types: {
+    [name: string]: { [variation: string]: { id: string } };
+  } = {};
+
+  for (let index = 0; index < size; index += 1) {
+    types[`Event${index}`] = {};
+
+    variations.forEach((variation) => {
+      types[`Event${index}`][variation] = Union.type<{ id: string }>();
+    });
+  }
+
+  return types;
+}
+
+function measure(operation: () => void) {
+  // warm up
+  for (let index = 0; index < 10; index += 1) {
+    operation();
+  }
+
+  const runs = 50;
+  const start = process.hrtime.bigint();
+
+  for (let index = 0; index < runs; index += 1) {
+    operation();
+  }
+
+  return Number(process.hrtime.bigint() - start) / runs / 1e6;
+}
+
+function report(
+  title: string,
+  operation: (size: number) => () => void,
+  baseline?: (size: number) => () => void,
+) {
+  const results = [10, 60, 200].map((size) => ({
+    members: size,
+    'mean (ms)': measure(operation(size)).toFixed(3),
+    ...(baseline === undefined
+      ? {}
+      : { 'before (ms)': measure(baseline(size)).toFixed(3) }),
+  }));
+
+  // eslint-disable-next-line no-console
+  console.log(`${title}\n${JSON.stringify(results, null, 2)}`);
+}
+
+describe('benchmarks', () => {
+  describe('construction', () => {
+    it('creates union apis', () => {
+      report(
+        'ofVariations',
+        (size) => {
+          const types = typesOf(size);
+
+          return () => Union.ofVariations(types);
+        },
+        (size) => {
+          const types = typesOf(size);
+
+          return () => Baseline.ofVariations(types);
+        },
+      );
+
+      report('ofVariations (lazy)', (size) => {
+        const types = typesOf(size);
+
+        return () => Union.ofVariations(types, { lazy: true });
+      });
+    });
+
+    it('derives union apis', () => {
+      report(
+        'omit',
+        (size) => {
+          const UnionAPI = Union.ofVariations(typesOf(size));
+
+          return () => Union.omit(UnionAPI, ['Event0']);
+        },
+        (size) => {
+          const UnionAPI = Baseline.ofVariations(typesOf(size));
+
+          return () => Baseline.omit(UnionAPI, ['Event0']);
+        },
+      );
+
+      report('omitVariations', (size) => {
+        const UnionAPI = Union.ofVariations(typesOf(size));
+
+        return () => Union.omitVariations(UnionAPI, ['Deleted']);
+      });
+    });
+
+    it('creates and uses every optic', () => {
+      report('ofVariations and every optic', (size) => {
+        const types = typesOf(size);
+
+        return () => {
+          const optics: unknown[] = [];
+
+          const UnionAPI = Union.ofVariations(types) as unknown as {
+            [key: string]: {
+              [key: string]: { iso: unknown; prism: unknown };
+            } & { iso: unknown };
+          };
+
+          Object.keys(types).forEach((name) => {
+            variations.forEach((variation) => {
+              optics.push(
+                UnionAPI[name][variation].iso,
+                UnionAPI[name][variation].prism,
+                UnionAPI[variation][name].iso,
+              );
+            });
+          });
+
+          expect(optics).not.toContain(undefined);
+        };
+      });
+    });
+  });
+});
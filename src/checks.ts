@@ -0,0 +1,45 @@
+import { UnknownMemberError } from './errors';
+
+declare const process: { env: { [key: string]: string | undefined } };
+
+/**
+ * Whether the library runs in a production build, where `NODE_ENV` is
+ * replaced by `'production'` by the bundler
+ *
+ * @internal
+ */
+export function isProduction() {
+  try {
+    return process.env.NODE_ENV === 'production';
+  } catch {
+    // no process in this environment
+    return false;
+  }
+}
+
+/**
+ * Check that the union declares the member `name` with the variation
+ * `variation`
+ *
+ * @internal
+ */
+export function checkMember(
+  types: { [name: string]: object },
+  name: PropertyKey,
+  variation: PropertyKey,
+) {
+  const has = (object: object, key: PropertyKey) =>
+    Object.prototype.hasOwnProperty.call(object, key);
+
+  if (!has(types, name)) {
+    throw new UnknownMemberError(String(name), String(variation), {
+      names: Object.keys(types),
+    });
+  }
+
+  if (!has(types[name as string], variation)) {
+    throw new UnknownMemberError(String(name), String(variation), {
+      variations: Object.keys(types[name as string]),
+    });
+  }
+}
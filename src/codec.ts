@@ -0,0 +1,189 @@
+import { Either, left, right } from 'fp-ts/Either';
+
+import { definitionOf, validatePayload, ValidationError } from './definition';
+import type { Opaque } from './index';
+import type { Members, PayloadOf, VariationsOf } from './members';
+
+type PossibleNames = string | number | symbol;
+type PossibleVariations = string | number | symbol;
+
+/**
+ * The JSON representation of an opaque, produced by `codec.encode`
+ *
+ * @typeParam Name - The name of the opaque
+ * @typeParam Variation - The variation of the opaque
+ * @typeParam Payload - The private type of the opaque
+ */
+export type Encoded<Name, Variation, Payload> = {
+  readonly name: Name;
+  readonly variation: Variation;
+  readonly payload: Payload;
+};
+
+/**
+ * Mapped type to store `Encoded` types
+ *
+ * @internal
+ */
+type EncodedTypes<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+> = {
+  [name in Names]: {
+    [variation in VariationsOf<Types, name, Variations>]: Encoded<
+      name,
+      variation,
+      PayloadOf<Types, name, variation>
+    >;
+  }[VariationsOf<Types, name, Variations>];
+}[Names];
+
+/**
+ * Encode and decode the members of a union to and from JSON
+ *
+ * @example
+```typescript
+  const json = JSON.stringify(MessageAPI.codec.encode(text));
+  // {"name":"Text","variation":"Sent","payload":{"content":"hello world"}}
+
+  const result = MessageAPI.codec.decode(JSON.parse(json));
+  // Either<ValidationError[], Message>
+```
+ *
+ * @typeParam Names - The names of the union
+ * @typeParam Variations - The variations of the union
+ * @typeParam Types - Collection of private types of the union
+ * @typeParam Brand - The brand of the union
+ */
+export type Codec<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
+> = {
+  /**
+   * Get the JSON representation of an opaque
+   *
+   * @throws {@link ForeignOpaqueError} when the opaque is not a member of the
+   * union
+   */
+  encode: <
+    Name extends Names,
+    Variation extends VariationsOf<Types, Name, Variations>,
+  >(
+    opaque: Opaque<Name, Variation, Brand>,
+  ) => EncodedTypes<Name, Variation, Types>;
+
+  /**
+   * Check that something is the JSON representation of a member of the union
+   * and create the corresponding opaque
+   */
+  decode: (
+    json: unknown,
+  ) => Either<
+    ReadonlyArray<ValidationError>,
+    Members<Names, Variations, Types, Brand>
+  >;
+};
+
+function describe(thing: unknown) {
+  return thing === null ? 'null' : typeof thing;
+}
+
+/**
+ * Create the codec of a union
+ *
+ * @internal
+ */
+export function createCodec<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  Types extends { [name in Names]: { [variation: string]: any } },
+  Brand,
+>(
+  types: Types,
+  of: (
+    name: Names,
+    variation: Variations,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    value: any,
+  ) => Opaque<Names, Variations, Brand>,
+  assertDeclared: (opaque: Opaque<Names, Variations>) => void,
+): Codec<Names, Variations, Types, Brand> {
+  const encode = (opaque: Opaque<Names, Variations>) => {
+    assertDeclared(opaque);
+
+    return {
+      // eslint-disable-next-line no-underscore-dangle
+      name: opaque.__OPAQUE_KEY__,
+      // eslint-disable-next-line no-underscore-dangle
+      variation: opaque.__OPAQUE_VARIATION__,
+      payload: opaque.value,
+    };
+  };
+
+  const decode = (json: unknown) => {
+    if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+      return left([
+        { path: [], message: `Expected an object, got ${describe(json)}` },
+      ]);
+    }
+
+    const { name, variation, payload } = json as {
+      [key: string]: unknown;
+    };
+
+    if (
+      typeof name !== 'string' ||
+      !Object.prototype.hasOwnProperty.call(types, name)
+    ) {
+      return left([
+        {
+          path: ['name'],
+          message: `Expected one of ${Object.keys(types).join(
+            ', ',
+          )}, got ${String(name)}`,
+        },
+      ]);
+    }
+
+    const typesForName = types[name as Names];
+
+    if (
+      typeof variation !== 'string' ||
+      !Object.prototype.hasOwnProperty.call(typesForName, variation)
+    ) {
+      return left([
+        {
+          path: ['variation'],
+          message: `Expected one of ${Object.keys(typesForName).join(
+            ', ',
+          )}, got ${String(variation)}`,
+        },
+      ]);
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(json, 'payload')) {
+      return left([{ path: ['payload'], message: 'Missing payload' }]);
+    }
+
+    const errors = validatePayload(
+      definitionOf(typesForName[variation]),
+      payload,
+      ['payload'],
+    );
+
+    if (errors.length > 0) {
+      return left(errors);
+    }
+
+    return right(of(name as Names, variation as Variations, payload));
+  };
+
+  return {
+    encode,
+    decode,
+  } as Codec<Names, Variations, Types, Brand>;
+}
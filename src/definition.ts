@@ -0,0 +1,285 @@
+import { Either, isLeft, isRight } from 'fp-ts/Either';
+import type { Eq } from 'fp-ts/Eq';
+import type { Ord } from 'fp-ts/Ord';
+
+import type { JSONSchema } from './jsonSchema';
+
+/**
+ * A type guard checking at runtime that something is a valid `T`
+ *
+ * @typeParam T - The private type checked by the guard
+ */
+export type Guard<T> = (thing: unknown) => thing is T;
+
+/**
+ * A decoder checking at runtime that something is a valid `T`. Any
+ * [io-ts](https://github.com/gcanti/io-ts) codec is a valid decoder.
+ *
+ * @typeParam T - The private type checked by the decoder
+ */
+export type Decoder<T> = {
+  decode: (thing: unknown) => Either<unknown, T>;
+};
+
+/**
+ * Either a {@link Guard} or a {@link Decoder}
+ *
+ * @typeParam T - The private type checked by the validator
+ */
+export type Validator<T> = Guard<T> | Decoder<T>;
+
+/**
+ * Runtime options attached to a private type with {@link "type" | `type`}
+ *
+ * @typeParam T - The private type the options are attached to
+ */
+export type TypeOptions<T> = {
+  /**
+   * Checks the payloads given to constructors and type guards
+   */
+  validate?: Validator<T>;
+
+  /**
+   * Compares the payloads in `equals`. Default to deep structural equality.
+   */
+  eq?: Eq<T>;
+
+  /**
+   * Hashes the payloads in `hash`, must be consistent with `eq`. Without it,
+   * payloads with a custom `eq` are left out of the hash.
+   */
+  hash?: (payload: T) => number;
+
+  /**
+   * Orders the payloads in `ord` and `sort`, after the name and the
+   * variation. Without it, payloads of the same member are left in place.
+   */
+  ord?: Ord<T>;
+
+  /**
+   * Prints the payloads in `show`, `util.inspect` and error messages
+   */
+  show?: (payload: T) => string;
+
+  /**
+   * Fields of the payloads hidden by `show` when there is no `show` formatter
+   */
+  redact?: ReadonlyArray<keyof T>;
+
+  /**
+   * Describes the payloads in `toJSONSchema`. Without it, the payloads of the
+   * member are not checked by the schema.
+   */
+  schema?: JSONSchema;
+};
+
+/**
+ * Describes why something is not a valid member of a union
+ */
+export type ValidationError = {
+  /**
+   * Where the error is, from the root of the checked value
+   */
+  readonly path: ReadonlyArray<string>;
+
+  /**
+   * What is wrong
+   */
+  readonly message: string;
+};
+
+/**
+ * What {@link "type" | `type`} returns at runtime
+ *
+ * @internal
+ */
+export type TypeDefinition<T> = {
+  readonly __OPAQUE_TYPE__: '__OPAQUE_TYPE__';
+} & TypeOptions<T>;
+
+/**
+ * To be used only in the context of {@link of | Union.of} to attach private
+ * type to the corresponding name in the union.
+ *
+ * @example
+```typescript
+  import * as Union from '@iadvize-oss/opaque-union';
+
+  const MessageAPI = Union.of({
+    Text: Union.type<$Text>(),
+    Image: Union.type<$Image>(),
+  });
+```
+ *
+ * @example
+```typescript
+  import * as Union from '@iadvize-oss/opaque-union';
+
+  const isText = (thing: unknown): thing is $Text => typeof thing === 'string';
+
+  const MessageAPI = Union.of({
+    Text: Union.type(isText), // or Union.type({ validate: isText })
+    Image: Union.type(ImageCodec), // any io-ts codec
+  });
+```
+ *
+ * @typeParam T - The private type to assign to the corresponding name
+ *
+ * @param definition - An optional validator, or the type options
+ *
+ * @returns Something. Do not rely on it. Used internaly only.
+ */
+export function type<T>(definition?: Validator<T> | TypeOptions<T>): T {
+  const options: TypeOptions<T> =
+    typeof definition === 'function' ||
+    (definition !== undefined && 'decode' in definition)
+      ? { validate: definition as Validator<T> }
+      : { ...definition };
+
+  const typeDefinition: TypeDefinition<T> = {
+    __OPAQUE_TYPE__: '__OPAQUE_TYPE__',
+    ...options,
+  };
+
+  return typeDefinition as unknown as T;
+}
+
+/**
+ * Get back the definition created by {@link "type" | `type`}
+ *
+ * @remarks
+ * Anything else (like a hand written placeholder) is considered as a
+ * definition without options.
+ *
+ * @internal
+ */
+export function definitionOf<T>(thing: T): TypeDefinition<T> {
+  if (
+    typeof thing === 'object' &&
+    thing !== null &&
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (thing as any).__OPAQUE_TYPE__ === '__OPAQUE_TYPE__'
+  ) {
+    return thing as unknown as TypeDefinition<T>;
+  }
+
+  return { __OPAQUE_TYPE__: '__OPAQUE_TYPE__' };
+}
+
+/**
+ * Check a payload against the validator of a definition, if any
+ *
+ * @internal
+ */
+export function isValidPayload<T>(
+  definition: TypeDefinition<T>,
+  payload: unknown,
+): boolean {
+  const { validate } = definition;
+
+  if (validate === undefined) {
+    return true;
+  }
+
+  if (typeof validate === 'function') {
+    return validate(payload);
+  }
+
+  return isRight(validate.decode(payload));
+}
+
+/**
+ * An io-ts validation error: the keys of its context lead to the error
+ *
+ * @internal
+ */
+type ContextError = {
+  readonly context: ReadonlyArray<{ readonly key: string }>;
+  readonly message?: string;
+};
+
+function isValidationError(thing: unknown): thing is ValidationError {
+  return (
+    typeof thing === 'object' &&
+    thing !== null &&
+    Array.isArray((thing as ValidationError).path) &&
+    typeof (thing as ValidationError).message === 'string'
+  );
+}
+
+function isContextError(thing: unknown): thing is ContextError {
+  return (
+    typeof thing === 'object' &&
+    thing !== null &&
+    Array.isArray((thing as ContextError).context)
+  );
+}
+
+/**
+ * Describe the errors of a decoder. Arrays of io-ts errors or of
+ * `ValidationError` are kept one by one, with their paths.
+ *
+ * @internal
+ */
+function decoderErrors(
+  errors: unknown,
+  path: ReadonlyArray<string>,
+): ReadonlyArray<ValidationError> {
+  if (
+    Array.isArray(errors) &&
+    errors.length > 0 &&
+    errors.every((error) => isValidationError(error) || isContextError(error))
+  ) {
+    return errors.map((error: ValidationError | ContextError) =>
+      isValidationError(error)
+        ? { path: [...path, ...error.path], message: error.message }
+        : {
+            path: [
+              ...path,
+              ...error.context
+                .map(({ key }) => key)
+                .filter((key) => key !== ''),
+            ],
+            message: error.message ?? 'Invalid value',
+          },
+    );
+  }
+
+  return [
+    {
+      path,
+      message: `Payload rejected by the decoder: ${String(errors)}`,
+    },
+  ];
+}
+
+/**
+ * Same as {@link isValidPayload} but describes why the payload is rejected
+ *
+ * @internal
+ */
+export function validatePayload<T>(
+  definition: TypeDefinition<T>,
+  payload: unknown,
+  path: ReadonlyArray<string>,
+): ReadonlyArray<ValidationError> {
+  const { validate } = definition;
+
+  if (validate === undefined) {
+    return [];
+  }
+
+  if (typeof validate === 'function') {
+    return validate(payload)
+      ? []
+      : [{ path, message: 'Payload rejected by the validator' }];
+  }
+
+  const result = validate.decode(payload);
+
+  if (isLeft(result)) {
+    return decoderErrors(result.left, path);
+  }
+
+  return [];
+}
@@ -0,0 +1,81 @@
+import { Iso } from 'monocle-ts';
+
+import type { Opaque } from './index';
+
+type PossibleNames = string | number | symbol;
+
+/**
+ * Keys of T holding a string literal in every member, that can discriminate
+ * its members
+ *
+ * @internal
+ */
+export type DiscriminantKeys<T> = {
+  [key in keyof T]-?: T[key] extends string
+    ? string extends T[key]
+      ? never
+      : key
+    : never;
+}[keyof T];
+
+/**
+ * Values of the discriminant of T, the names of the union
+ *
+ * @internal
+ */
+export type DiscriminantsOf<T, Key extends keyof T> = T[Key] & string;
+
+/**
+ * Omit K of each member of T
+ *
+ * @internal
+ */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+/**
+ * Private types of a union created with {@link fromDiscriminated}: each
+ * member of T without its discriminant, named after the discriminant
+ *
+ * @typeParam T - The discriminated union
+ * @typeParam Key - The discriminant of T
+ */
+export type DiscriminatedTypes<T, Key extends keyof T> = {
+  [name in DiscriminantsOf<T, Key>]: DistributiveOmit<
+    Extract<T, { [key in Key]: name }>,
+    Key
+  >;
+};
+
+/**
+ * Create the iso between the opaques of a union and the values of the
+ * discriminated union it comes from
+ *
+ * @internal
+ */
+export function createAdapter<
+  Opaques extends Opaque<PossibleNames, unknown, unknown>,
+  T,
+>(
+  key: string,
+  isoOf: (name: PossibleNames) => Iso<Opaques, object>,
+  build: (name: PossibleNames, payload: object) => Opaques,
+) {
+  return new Iso<Opaques, T>(
+    (opaque) =>
+      ({
+        // eslint-disable-next-line no-underscore-dangle
+        [key]: opaque.__OPAQUE_KEY__,
+        // eslint-disable-next-line no-underscore-dangle
+        ...isoOf(opaque.__OPAQUE_KEY__).get(opaque),
+      } as unknown as T),
+    (value) => {
+      const { [key]: name, ...payload } = value as unknown as {
+        [key: string]: unknown;
+      };
+
+      return build(name as PossibleNames, payload);
+    },
+  );
+}
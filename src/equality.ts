@@ -0,0 +1,255 @@
+import type { Eq } from 'fp-ts/Eq';
+
+import { definitionOf } from './definition';
+import type { Opaque } from './index';
+
+/**
+ * Structural equality and hashing of the members of a union
+ *
+ * @example
+```typescript
+  const a = MessageAPI.of.Text.Sent({ content: 'hello' });
+  const b = MessageAPI.of.Text.Sent({ content: 'hello' });
+
+  a === b; // false
+  MessageAPI.equals(a, b); // true
+  MessageAPI.hash(a) === MessageAPI.hash(b); // true
+
+  // dedupe with fp-ts
+  uniq(MessageAPI.eq)(messages);
+```
+ *
+ * @typeParam Opaques - The opaques of the union
+ */
+export type Equality<Opaques> = {
+  /**
+   * Tell if two opaques have the same name, the same variation and equal
+   * payloads. Payloads are compared with the `eq` given to
+   * {@link "type" | `type`}, deeply by default. Opaques of another union are
+   * never equal.
+   */
+  equals: (a: Opaques, b: Opaques) => boolean;
+
+  /**
+   * Get a 32 bits integer hash of an opaque. Equal opaques have the same hash.
+   * Throws a {@link ForeignOpaqueError} on opaques of another union.
+   */
+  hash: (opaque: Opaques) => number;
+
+  /**
+   * [fp-ts](https://github.com/gcanti/fp-ts) `Eq` instance based on `equals`
+   */
+  eq: Eq<Opaques>;
+};
+
+/**
+ * Deep structural equality of plain values: primitives, arrays, dates, maps
+ * (same keys, equal values), sets (same members) and objects of the same
+ * prototype (own enumerable keys).
+ *
+ * @internal
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b || (a !== a && b !== b)) {
+    return true;
+  }
+
+  if (
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    a === null ||
+    b === null ||
+    Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)
+  ) {
+    return false;
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length &&
+      a.every((value, index) => deepEqual(value, b[index]))
+    );
+  }
+
+  if (a instanceof Map && b instanceof Map) {
+    let equal = a.size === b.size;
+
+    a.forEach((value, key) => {
+      equal = equal && b.has(key) && deepEqual(value, b.get(key));
+    });
+
+    return equal;
+  }
+
+  if (a instanceof Set && b instanceof Set) {
+    let equal = a.size === b.size;
+
+    a.forEach((value) => {
+      equal = equal && b.has(value);
+    });
+
+    return equal;
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+
+  return (
+    keysA.length === keysB.length &&
+    keysA.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(b, key) &&
+        deepEqual(
+          (a as { [key: string]: unknown })[key],
+          (b as { [key: string]: unknown })[key],
+        ),
+    )
+  );
+}
+
+function combine(hash: number, value: number) {
+  return (Math.imul(31, hash) + value) | 0;
+}
+
+function hashString(value: string) {
+  let hash = 0;
+
+  for (let index = 0; index < value.length; index += 1) {
+    hash = combine(hash, value.charCodeAt(index));
+  }
+
+  return hash;
+}
+
+/**
+ * Hash consistent with {@link deepEqual}: deeply equal values have the same
+ * hash
+ *
+ * @internal
+ */
+export function deepHash(value: unknown): number {
+  if (typeof value !== 'object' || value === null) {
+    return hashString(`${typeof value}:${String(value)}`);
+  }
+
+  if (value instanceof Date) {
+    return hashString(`date:${value.getTime()}`);
+  }
+
+  if (Array.isArray(value)) {
+    return value.reduce<number>(
+      (hash, item) => combine(hash, deepHash(item)),
+      hashString('array'),
+    );
+  }
+
+  // maps and sets are equal whatever the order of insertion: sum the hashes
+  // of their entries
+  if (value instanceof Map) {
+    let hash = hashString('map');
+
+    value.forEach((item, key) => {
+      hash = (hash + combine(deepHash(key), deepHash(item))) | 0;
+    });
+
+    return hash;
+  }
+
+  if (value instanceof Set) {
+    let hash = hashString('set');
+
+    value.forEach((item) => {
+      hash = (hash + deepHash(item)) | 0;
+    });
+
+    return hash;
+  }
+
+  return Object.keys(value)
+    .sort()
+    .reduce(
+      (hash, key) =>
+        combine(
+          combine(hash, hashString(key)),
+          deepHash((value as { [key: string]: unknown })[key]),
+        ),
+      hashString('object'),
+    );
+}
+
+/**
+ * Create the equality functions of a union
+ *
+ * @internal
+ */
+export function createEquality<Opaques>(
+  types: {
+    [name: string]: { [variation: string]: unknown };
+  },
+  isDeclared: (thing: unknown) => boolean,
+  assertDeclared: (opaque: Opaque<string, string>) => void,
+): Equality<Opaques> {
+  const definition = (opaque: Opaque<string, string>) =>
+    // eslint-disable-next-line no-underscore-dangle
+    definitionOf(types[opaque.__OPAQUE_KEY__][opaque.__OPAQUE_VARIATION__]);
+
+  const equals = (a: Opaque<string, string>, b: Opaque<string, string>) => {
+    if (!isDeclared(a) || !isDeclared(b)) {
+      return false;
+    }
+
+    if (a === b) {
+      return true;
+    }
+
+    if (
+      /* eslint-disable no-underscore-dangle */
+      a.__OPAQUE_KEY__ !== b.__OPAQUE_KEY__ ||
+      a.__OPAQUE_VARIATION__ !== b.__OPAQUE_VARIATION__
+      /* eslint-enable no-underscore-dangle */
+    ) {
+      return false;
+    }
+
+    const { eq } = definition(a);
+
+    return eq === undefined
+      ? deepEqual(a.value, b.value)
+      : eq.equals(a.value, b.value);
+  };
+
+  const hash = (opaque: Opaque<string, string>) => {
+    assertDeclared(opaque);
+
+    const { eq, hash: hashPayload } = definition(opaque);
+
+    const hashOfMember = combine(
+      // eslint-disable-next-line no-underscore-dangle
+      hashString(String(opaque.__OPAQUE_KEY__)),
+      // eslint-disable-next-line no-underscore-dangle
+      hashString(String(opaque.__OPAQUE_VARIATION__)),
+    );
+
+    if (hashPayload !== undefined) {
+      return combine(hashOfMember, hashPayload(opaque.value));
+    }
+
+    // a custom eq without hash can make different payloads equal: only the
+    // name and the variation are safe to hash
+    if (eq !== undefined) {
+      return hashOfMember;
+    }
+
+    return combine(hashOfMember, deepHash(opaque.value));
+  };
+
+  return {
+    equals,
+    hash,
+    eq: { equals },
+  } as unknown as Equality<Opaques>;
+}
@@ -0,0 +1,186 @@
+/**
+ * Base class of all errors thrown by the library
+ *
+ * @remarks
+ * Use `instanceof UnionError` to catch any error coming from a union API.
+ */
+export class UnionError extends Error {
+  constructor(message: string) {
+    super(message);
+
+    // restore the prototype chain, lost when extending Error with an ES5 target
+    Object.setPrototypeOf(this, new.target.prototype);
+
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Thrown by the constructors of a strict union when the given payload is
+ * rejected by the validator attached with {@link "type" | `type`}
+ */
+export class InvalidPayloadError extends UnionError {
+  /**
+   * The name of the member the payload was given for
+   */
+  readonly memberName: string;
+
+  /**
+   * The variation of the member the payload was given for
+   */
+  readonly variation: string;
+
+  /**
+   * The rejected payload
+   */
+  readonly payload: unknown;
+
+  constructor(
+    memberName: string,
+    variation: string,
+    payload: unknown,
+    shown?: string,
+  ) {
+    super(
+      `Invalid payload for member "${memberName}" with variation "${variation}"${
+        shown === undefined ? '' : `: ${shown}`
+      }`,
+    );
+
+    this.memberName = memberName;
+    this.variation = variation;
+    this.payload = payload;
+  }
+}
+
+/**
+ * Thrown when an opaque is given to the optics of a union it doesn't belong to,
+ * or to the update functions of another member
+ *
+ * @remarks
+ * See {@link UnionOptions.namespace}
+ */
+export class ForeignOpaqueError extends UnionError {
+  /**
+   * The name of the given opaque
+   */
+  readonly memberName: string;
+
+  /**
+   * The variation of the given opaque
+   */
+  readonly variation: string;
+
+  constructor(memberName: string, variation: string, shown?: string) {
+    super(
+      `Opaque "${memberName}" with variation "${variation}" does not belong to this union${
+        shown === undefined ? '' : `: ${shown}`
+      }`,
+    );
+
+    this.memberName = memberName;
+    this.variation = variation;
+  }
+}
+
+/**
+ * Thrown by the transition functions when the given opaque is not of the
+ * source variation of the transition
+ *
+ * @remarks
+ * See {@link UnionOptions.transitions}
+ */
+export class IllegalTransitionError extends UnionError {
+  /**
+   * The name of the given opaque
+   */
+  readonly memberName: string;
+
+  /**
+   * The variation of the given opaque
+   */
+  readonly from: string;
+
+  /**
+   * The variation the opaque was to go to
+   */
+  readonly to: string;
+
+  constructor(memberName: string, from: string, to: string, shown?: string) {
+    super(
+      `Illegal transition of member "${memberName}" from variation "${from}" to "${to}"${
+        shown === undefined ? '' : `: ${shown}`
+      }`,
+    );
+
+    this.memberName = memberName;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Thrown when creating a fold whose handlers don't match the members of the
+ * union
+ */
+export class InvalidHandlersError extends UnionError {
+  /**
+   * The members without handler, like `Text` or `Text.Sent`
+   */
+  readonly missing: ReadonlyArray<string>;
+
+  /**
+   * The handlers of no member
+   */
+  readonly extra: ReadonlyArray<string>;
+
+  constructor(missing: ReadonlyArray<string>, extra: ReadonlyArray<string>) {
+    super(
+      `Invalid fold handlers (${[
+        ...(missing.length > 0 ? [`missing: ${missing.join(', ')}`] : []),
+        ...(extra.length > 0 ? [`extra: ${extra.join(', ')}`] : []),
+      ].join('; ')})`,
+    );
+
+    this.missing = missing;
+    this.extra = extra;
+  }
+}
+
+/**
+ * Thrown by the constructors when the given name or variation is not declared
+ * by the union
+ *
+ * @remarks
+ * See {@link UnionOptions.checks}
+ */
+export class UnknownMemberError extends UnionError {
+  /**
+   * The given name
+   */
+  readonly memberName: string;
+
+  /**
+   * The given variation
+   */
+  readonly variation: string;
+
+  constructor(
+    memberName: string,
+    variation: string,
+    known:
+      | { names: ReadonlyArray<string> }
+      | { variations: ReadonlyArray<string> },
+  ) {
+    super(
+      'names' in known
+        ? `Unknown member "${memberName}" (members: ${known.names.join(', ')})`
+        : `Unknown variation "${variation}" of member "${memberName}" (variations: ${known.variations.join(
+            ', ',
+          )})`,
+    );
+
+    this.memberName = memberName;
+    this.variation = variation;
+  }
+}
@@ -0,0 +1,119 @@
+import { InvalidHandlersError, UnionError } from './errors';
+import { showValue } from './show';
+
+/**
+ * Fold functions definition. A kind of pattern matching for unions created with
+ * the library.
+ *
+ * @example
+```typescript
+  import * as Union from '@iadvize-oss/opaque-union';
+
+  const MessageAPI = Union.of({
+    Text: Union.type<$Text>(),
+    Image: Union.type<$Image>(),
+  });
+
+  type Text = ReturnType<typeof MessageAPI.of.Text>;
+  type Image = ReturnType<typeof MessageAPI.of.Image>;
+
+  MessageAPI.fold({
+    Test: (message: Text) => 'text',
+    Image: (message: Image) => 'image',
+  })
+```
+ *
+ * @example
+```typescript
+  import * as Union from '@iadvize-oss/opaque-union';
+
+  const MessageAPI = Union.ofVariations({
+    Text: {
+      Sent: Union.type<$Text>(),
+      Pending: Union.type<$Text>(),
+    },
+    Image: {
+      Sent: Union.type<$Image>(),
+      Pending: Union.type<$Image>(),
+    },
+  });
+
+  const MessageSentAPI = Union.omitVariations(['Pending']);
+  type MessageSent = Union.Type<typeof MessageSentAPI>;
+
+  type TextSent = ReturnType<typeof MessageAPI.of.Text.Sent>;
+  type ImageSent = ReturnType<typeof MessageAPI.of.Image.Sent>;
+
+  MessageAPI.fold<string, MessageSent>({
+    Test: (message: TextSent) => 'text',
+    Image: (message: ImageSent) => 'image',
+  })
+```
+ * *
+ * @internal
+ */
+export type Fold<Types> = {
+  /**
+   * Basic definition: each function we provide for subtype take the full
+   * subtype
+   */
+  <R>(
+    funcs: {
+      [key in keyof Types]: (s: Types[key]) => R;
+    },
+  ): (s: Types[keyof Types]) => R;
+
+  /**
+   * Extended definition: we can filter the types we fold on, specialy usefull
+   * when we want to exclude some variations
+   */
+  <R, S extends Types[keyof Types]>(
+    funcs: {
+      [key in keyof Types]: (s: Extract<S, Types[key]>) => R;
+    },
+  ): (s: S) => R;
+};
+
+/**
+ * Check that the handlers of a fold are exactly the expected ones
+ *
+ * @internal
+ */
+export function checkHandlers(
+  expected: ReadonlyArray<string>,
+  given: ReadonlyArray<string>,
+) {
+  const missing = expected.filter((key) => !given.includes(key));
+  const extra = given.filter((key) => !expected.includes(key));
+
+  if (missing.length > 0 || extra.length > 0) {
+    throw new InvalidHandlersError(missing, extra);
+  }
+}
+
+/**
+ * Create a fold function from the guards of its handlers. The handlers are
+ * checked when the fold is created, and applying it to something no guard
+ * accepts throws.
+ *
+ * @internal
+ */
+export function createFold(guards: {
+  [key: string]: (thing: unknown) => boolean;
+}) {
+  const keys = Object.keys(guards);
+
+  return <R>(funcs: { [key: string]: (thing: unknown) => R }) => {
+    checkHandlers(keys, Object.keys(funcs));
+
+    return (thing: unknown) => {
+      const key = keys.find((localKey) => guards[localKey](thing));
+
+      if (key === undefined) {
+        throw new UnionError(`No handler found to fold ${showValue(thing)}`);
+      }
+
+      return funcs[key](thing);
+    };
+  };
+}
@@ -0,0 +1,152 @@
+import { UnionError } from './errors';
+import { checkHandlers } from './fold';
+import { showValue } from './show';
+import type { Opaque } from './index';
+import type { Members, NamesOf, VariationsOf } from './members';
+
+type PossibleNames = string | number | symbol;
+type PossibleVariations = string | number | symbol;
+
+/**
+ * Fold over names and variations at once. Each handler takes the exact
+ * `Opaque<Name, Variation>`. Handlers can be given by name then variation or
+ * by variation then name.
+ *
+ * @example
+```typescript
+  import * as Union from '@iadvize-oss/opaque-union';
+
+  const MessageAPI = Union.ofVariations({
+    Text: {
+      Sent: Union.type<$Text>(),
+      Pending: Union.type<$Text>(),
+    },
+    Image: {
+      Sent: Union.type<$Image>(),
+      Pending: Union.type<$Image>(),
+    },
+  });
+
+  MessageAPI.foldAll({
+    Text: {
+      Sent: (message: TextSent) => 'sent text',
+      Pending: (message: TextPending) => 'pending text',
+    },
+    Image: {
+      Sent: (message: ImageSent) => 'sent image',
+      Pending: (message: ImagePending) => 'pending image',
+    },
+  });
+
+  MessageAPI.foldAll({
+    Sent: {
+      Text: (message: TextSent) => 'sent text',
+      Image: (message: ImageSent) => 'sent image',
+    },
+    Pending: {
+      Text: (message: TextPending) => 'pending text',
+      Image: (message: ImagePending) => 'pending image',
+    },
+  });
+```
+ */
+export type FoldAll<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
+> = {
+  /**
+   * Handlers by name then variation
+   */
+  <R>(
+    funcs: {
+      [name in Names]: {
+        [variation in VariationsOf<Types, name, Variations>]: (
+          s: Opaque<name, variation, Brand>,
+        ) => R;
+      };
+    },
+  ): (s: Members<Names, Variations, Types, Brand>) => R;
+
+  /**
+   * Handlers by variation then name
+   */
+  <R>(
+    funcs: {
+      [variation in Variations]: {
+        [name in NamesOf<Types, Names, variation>]: (
+          s: Opaque<name, variation, Brand>,
+        ) => R;
+      };
+    },
+  ): (s: Members<Names, Variations, Types, Brand>) => R;
+};
+
+/**
+ * Create a `foldAll` function
+ *
+ * @internal
+ */
+export function createFoldAll<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+  Brand,
+>(
+  types: { [name: string]: object },
+  is: (thing: unknown) => thing is Members<Names, Variations, Types, Brand>,
+): FoldAll<Names, Variations, Types, Brand> {
+  const names = Object.keys(types);
+
+  const byNamePaths = names.flatMap((name) =>
+    Object.keys(types[name]).map((variation) => `${name}.${variation}`),
+  );
+
+  const byVariationPaths = names.flatMap((name) =>
+    Object.keys(types[name]).map((variation) => `${variation}.${name}`),
+  );
+
+  const pathsOf = (funcs: { [key: string]: object | undefined }) =>
+    Object.keys(funcs).flatMap((key) =>
+      Object.keys(funcs[key] ?? {}).map((subKey) => `${key}.${subKey}`),
+    );
+
+  return (<R>(
+    funcs: {
+      [name in PossibleNames]: {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        [variation in PossibleVariations]: (s: any) => R;
+      };
+    },
+  ) => {
+    const paths = pathsOf(funcs as { [key: string]: object | undefined });
+
+    const matches = (expected: ReadonlyArray<string>) =>
+      expected.length === paths.length &&
+      expected.every((path) => paths.includes(path));
+
+    // names can also be variations: try both layouts before guessing the one
+    // to report the errors of
+    const byName =
+      matches(byNamePaths) ||
+      (!matches(byVariationPaths) &&
+        Object.keys(funcs).every((key) => names.includes(key)));
+
+    checkHandlers(byName ? byNamePaths : byVariationPaths, paths);
+
+    return (opaque: Opaque<Names, Variations, Brand>) => {
+      if (!is(opaque)) {
+        throw new UnionError(`No handler found to fold ${showValue(opaque)}`);
+      }
+
+      /* eslint-disable no-underscore-dangle */
+      const func = byName
+        ? funcs[opaque.__OPAQUE_KEY__][opaque.__OPAQUE_VARIATION__]
+        : funcs[opaque.__OPAQUE_VARIATION__][opaque.__OPAQUE_KEY__];
+      /* eslint-enable no-underscore-dangle */
+
+      return func(opaque);
+    };
+  }) as FoldAll<Names, Variations, Types, Brand>;
+}
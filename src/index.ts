@@ -1,6 +1,87 @@
-import { Lens, Iso } from 'monocle-ts';
-
-import { createFoldObject } from '@iadvize-oss/foldable-helpers';
+import { Lens, Iso, Optional, Prism } from 'monocle-ts';
+import { none, some } from 'fp-ts/Option';
+
+import { Codec, createCodec } from './codec';
+import { type } from './definition';
+import {
+  createAdapter,
+  DiscriminantKeys,
+  DiscriminantsOf,
+  DiscriminatedTypes,
+} from './discriminated';
+import { createEquality, Equality } from './equality';
+import { createFold, Fold } from './fold';
+import { createFoldAll, FoldAll } from './foldAll';
+import { createToJSONSchema, JSONSchema } from './jsonSchema';
+import { defineLazy } from './lazy';
+import { createMake, Make } from './make';
+import { createMatchObject, Match } from './match';
+import { BrandOf, brandsOf, createOpaques, defaultVariations } from './opaques';
+import { createSorting, Sorting } from './ord';
+import { createRecursion, Recursion } from './recursion';
+import { Show } from './show';
+import {
+  DefaultTagKeys,
+  ValidTagKeys,
+  fromTagged,
+  TagKeys,
+  TaggedTypes,
+  tagKeysOf,
+  toTagged,
+} from './tagged';
+import { createUpdate, isPlainObject, Update } from './update';
+import type {
+  AllVariations,
+  Members,
+  NamesOf,
+  PayloadOf,
+  VariationsOf,
+} from './members';
+import { Transitions, TransitionsAPI, withTransitions } from './transitions';
+
+export { type } from './definition';
+export type {
+  Guard,
+  Decoder,
+  Validator,
+  TypeOptions,
+  ValidationError,
+} from './definition';
+export type { Codec, Encoded } from './codec';
+export type { JSONSchema } from './jsonSchema';
+export type { Make } from './make';
+export type { Equality } from './equality';
+export type { Sorting } from './ord';
+export type { Show } from './show';
+export type { Update } from './update';
+export type { Recursion } from './recursion';
+export type { Match } from './match';
+export type { Tagged } from './tagged';
+export type { DiscriminatedTypes } from './discriminated';
+export type { FoldAll } from './foldAll';
+export type { Transitions, Transition, TransitionsAPI } from './transitions';
+export { mapTo } from './mapTo';
+export type { MapHandlers } from './mapTo';
+export {
+  descriptor,
+  descriptorOfVariations,
+  construct,
+  is,
+  fold,
+  match,
+  iso,
+  prism,
+  lens,
+} from './standalone';
+export type { Descriptor } from './standalone';
+export {
+  UnionError,
+  InvalidPayloadError,
+  ForeignOpaqueError,
+  IllegalTransitionError,
+  InvalidHandlersError,
+  UnknownMemberError,
+} from './errors';
 
 /**
  * All opaque variables you create with the library will have the type of
@@ -12,8 +93,10 @@ import { createFoldObject } from '@iadvize-oss/foldable-helpers';
  *
  * @typeParam Name - The name of the opaque
  * @typeParam Variation - The variation of the opaque
+ * @typeParam Brand - The brand of the union the opaque belongs to, see
+ *                    {@link UnionOptions.namespace}
  */
-export type Opaque<Name, Variation> = {
+export type Opaque<Name, Variation, Brand = unknown> = {
   /**
    * @internal
    */
@@ -33,6 +116,13 @@ export type Opaque<Name, Variation> = {
    */
   readonly __OPAQUE_VARIATION__: Variation;
 
+  /**
+   * Where the brand of the union is stored
+   *
+   * @internal
+   */
+  readonly __OPAQUE_BRAND__: Brand;
+
   /**
    * Where the private value is stored
    *
@@ -50,107 +140,13 @@ type PossibleVariations = string | number | symbol;
 export type Opaques<
   Names extends PossibleNames,
   Variations extends PossibleVariations,
+  Brand = unknown,
 > = {
   [name in Names]: {
-    [variation in Variations]: Opaque<name, variation>;
+    [variation in Variations]: Opaque<name, variation, Brand>;
   }[Variations];
 }[Names];
 
-/**
- * To be used only in the context of {@link of | Union.of} to attach private
- * type to the corresponding name in the union.
- *
- * @example
-```typescript
-  import * as Union from '@iadvize-oss/opaque-union';
-
-  const MessageAPI = Union.of({
-    Text: Union.type<$Text>(),
-    Image: Union.type<$Image>(),
-  });
-```
- *
- * @typeParam T - The private type to assign to the corresponding name
- *
- * @returns Something. Do not rely on it. Used internaly only.
- */
-export function type<T>(): T {
-  return undefined as unknown as T;
-}
-
-/**
- * Fold functions definition. A kind of pattern matching for unions created with
- * the library.
- *
- * @example
-```typescript
-  import * as Union from '@iadvize-oss/opaque-union';
-
-  const MessageAPI = Union.of({
-    Text: Union.type<$Text>(),
-    Image: Union.type<$Image>(),
-  });
-
-  type Text = ReturnType<typeof MessageAPI.of.Text>;
-  type Image = ReturnType<typeof MessageAPI.of.Image>;
-
-  MessageAPI.fold({
-    Test: (message: Text) => 'text',
-    Image: (message: Image) => 'image',
-  })
-```
- *
- * @example
-```typescript
-  import * as Union from '@iadvize-oss/opaque-union';
-
-  const MessageAPI = Union.ofVariations({
-    Text: {
-      Sent: Union.type<$Text>(),
-      Pending: Union.type<$Text>(),
-    },
-    Image: {
-      Sent: Union.type<$Image>(),
-      Pending: Union.type<$Image>(),
-    },
-  });
-
-  const MessageSentAPI = Union.omitVariations(['Pending']);
-  type MessageSent = Union.Type<typeof MessageSentAPI>;
-
-  type TextSent = ReturnType<typeof MessageAPI.of.Text.Sent>;
-  type ImageSent = ReturnType<typeof MessageAPI.of.Image.Sent>;
-
-  MessageAPI.fold<string, MessageSent>({
-    Test: (message: TextSent) => 'text',
-    Image: (message: ImageSent) => 'image',
-  })
-```
- * *
- * @internal
- */
-type Fold<Types> = {
-  /**
-   * Basic definition: each function we provide for subtype take the full
-   * subtype
-   */
-  <R>(
-    funcs: {
-      [key in keyof Types]: (s: Types[key]) => R;
-    },
-  ): (s: Types[keyof Types]) => R;
-
-  /**
-   * Extended definition: we can filter the types we fold on, specialy usefull
-   * when we want to exclude some variations
-   */
-  <R, S extends Types[keyof Types]>(
-    funcs: {
-      [key in keyof Types]: (s: Extract<S, Types[key]>) => R;
-    },
-  ): (s: S) => R;
-};
-
 /**
  * Helper to type lensFromProp functions
  *
@@ -159,64 +155,69 @@ type Fold<Types> = {
 type LensFromProp<
   Names extends PossibleNames,
   Variations extends PossibleVariations,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  Types extends { [name in Names]: { [variation in Variations]: any } },
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
 > = {
   /**
    * Basic definition: we work on the full Opaques\<Names, Variations\>
    */
-  <Prop extends keyof Types[Names][Variations]>(prop: Prop): Lens<
-    Opaques<Names, Variations>,
-    Types[Names][Variations][Prop]
+  <Prop extends keyof PayloadOf<Types, Names, Variations>>(prop: Prop): Lens<
+    Members<Names, Variations, Types, Brand>,
+    PayloadOf<Types, Names, Variations>[Prop]
   >;
 
   /**
    * Exctended definition: we work on a subtype of Opaques\<Names, Variations\>
    */
   <
-    C extends Opaques<Names, Variations>,
-    Prop extends keyof Types[Names][Variations],
+    C extends Members<Names, Variations, Types, Brand>,
+    Prop extends keyof PayloadOf<Types, Names, Variations>,
   >(
     prop: Prop,
-  ): Lens<C, Types[Names][Variations][Prop]>;
+  ): Lens<C, PayloadOf<Types, Names, Variations>[Prop]>;
 };
 
 /**
- * Helper type to add a prop `_tag` on T
- * Usefull for ISO
+ * Keys of any member of a union of types
  *
- * @typeParam T - The type to decorate
- * @typeParam Key - The name to give the type
- * @typeParam Variations - The variations
+ * @internal
  */
-export type Tagged<
-  Name extends PossibleNames,
-  Variation extends PossibleVariations,
-  Type,
-> = Type & {
-  readonly _tag: Name;
-  readonly _variation: Variation;
-};
+type KeysOfAny<T> = T extends unknown ? keyof T : never;
 
 /**
- * Mapped type to store `Tagged` types
- * Usefull for ISO
+ * Type of a key for the members of a union of types having this key
  *
  * @internal
+ */
+type ValueOfAny<T, Key> = T extends unknown
+  ? Key extends keyof T
+    ? T[Key]
+    : never
+  : never;
+
+/**
+ * Helper to type optionalFromProp functions: like lensFromProp but the
+ * property can exist on some private types only
  *
- * @typeParam Types - Collection of private types of the union
- * @typeParam Keys - Keys of `Types` to map over
+ * @example
+```typescript
+// source :: (message: Message) => Option<string>
+export const source = MessageAPI.optionalFromProp('source').getOption;
+```
+ *
+ * @internal
  */
-type TaggedTypes<
+type OptionalFromProp<
   Names extends PossibleNames,
   Variations extends PossibleVariations,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  Types extends { [name in Names]: { [variation in Variations]: any } },
-> = {
-  [name in Names]: {
-    [variation in Variations]: Tagged<name, variation, Types[name][variation]>;
-  }[Variations];
-};
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
+> = <Prop extends KeysOfAny<PayloadOf<Types, Names, Variations>>>(
+  prop: Prop,
+) => Optional<
+  Members<Names, Variations, Types, Brand>,
+  ValueOfAny<PayloadOf<Types, Names, Variations>, Prop>
+>;
 
 /*
  * @internal
@@ -224,17 +225,17 @@ type TaggedTypes<
 type OfAll<
   Names extends PossibleNames,
   Variations extends PossibleVariations,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  Types extends { [name in Names]: { [variation in Variations]: any } },
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
 > = <
   Name extends Names,
-  Variation extends Variations,
-  Type extends Types[Name][Variation],
+  Variation extends VariationsOf<Types, Name, Variations>,
+  Type extends PayloadOf<Types, Name, Variation>,
 >(
   name: Name,
   variation: Variation,
   value: Type,
-) => Opaque<Name, Variation>;
+) => Opaque<Name, Variation, Brand>;
 
 /*
  * @internal
@@ -242,19 +243,24 @@ type OfAll<
 type OfTypes<
   Names extends PossibleNames,
   Variations extends PossibleVariations,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  Types extends { [name in Names]: { [variation in Variations]: any } },
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
 > = {
-  [name in Names]: (Variations extends 'default'
-    ? (value: Types[name][Variations]) => Opaque<name, 'default'>
-    : <Variation extends Variations, Type extends Types[name][Variation]>(
+  [name in Names]: (VariationsOf<Types, name, Variations> extends 'default'
+    ? (
+        value: PayloadOf<Types, name, 'default'>,
+      ) => Opaque<name, 'default', Brand>
+    : <
+        Variation extends VariationsOf<Types, name, Variations>,
+        Type extends PayloadOf<Types, name, Variation>,
+      >(
         variation: Variation,
         value: Type,
-      ) => Opaque<name, Variation>) &
+      ) => Opaque<name, Variation, Brand>) &
     {
-      [variation in Variations]: (
-        value: Types[name][variation],
-      ) => Opaque<name, variation>;
+      [variation in VariationsOf<Types, name, Variations>]: (
+        value: PayloadOf<Types, name, variation>,
+      ) => Opaque<name, variation, Brand>;
     };
 };
 
@@ -264,20 +270,20 @@ type OfTypes<
 type OfVariations<
   Names extends PossibleNames,
   Variations extends PossibleVariations,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  Types extends { [name in Names]: { [variation in Variations]: any } },
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
 > = {
   [variation in Variations]: (<
-    Name extends Names,
-    Type extends Types[Name][variation],
+    Name extends NamesOf<Types, Names, variation>,
+    Type extends PayloadOf<Types, Name, variation>,
   >(
     name: Name,
     value: Type,
-  ) => Opaque<Name, variation>) &
+  ) => Opaque<Name, variation, Brand>) &
     {
-      [name in Names]: (
-        value: Types[name][variation],
-      ) => Opaque<name, variation>;
+      [name in NamesOf<Types, Names, variation>]: (
+        value: PayloadOf<Types, name, variation>,
+      ) => Opaque<name, variation, Brand>;
     };
 };
 
@@ -313,20 +319,24 @@ type OfVariations<
 type Of<
   Names extends PossibleNames,
   Variations extends PossibleVariations,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  Types extends { [name in Names]: { [variation in Variations]: any } },
-> = OfAll<Names, Variations, Types> &
-  OfTypes<Names, Variations, Types> &
-  OfVariations<Names, Variations, Types>;
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
+> = OfAll<Names, Variations, Types, Brand> &
+  OfTypes<Names, Variations, Types, Brand> &
+  OfVariations<Names, Variations, Types, Brand>;
 
 /*
  * @internal
  */
-type IsAll<Names extends PossibleNames, Variations extends PossibleVariations> =
-  (
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    thing: any,
-  ) => thing is Opaques<Names, Variations>;
+type IsAll<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
+> = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  thing: any,
+) => thing is Members<Names, Variations, Types, Brand>;
 
 /*
  * @internal
@@ -334,14 +344,16 @@ type IsAll<Names extends PossibleNames, Variations extends PossibleVariations> =
 type IsTypes<
   Names extends PossibleNames,
   Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
 > = {
   [name in Names]: ((
-    opaque: Opaques<Names, Variations>,
-  ) => opaque is Opaques<name, Variations>) &
+    opaque: Members<Names, Variations, Types, Brand>,
+  ) => opaque is Members<name, Variations, Types, Brand>) &
     {
-      [variation in Variations]: (
-        opaque: Opaques<name, Variations>,
-      ) => opaque is Opaques<name, variation>;
+      [variation in VariationsOf<Types, name, Variations>]: (
+        opaque: Members<name, Variations, Types, Brand>,
+      ) => opaque is Members<name, variation, Types, Brand>;
     };
 };
 
@@ -351,14 +363,16 @@ type IsTypes<
 type IsVariations<
   Names extends PossibleNames,
   Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
 > = {
   [variation in Variations]: ((
-    opaque: Opaques<Names, Variations>,
-  ) => opaque is Opaques<Names, variation>) &
+    opaque: Members<Names, Variations, Types, Brand>,
+  ) => opaque is Members<Names, variation, Types, Brand>) &
     {
-      [name in Names]: (
-        opaque: Opaques<Names, variation>,
-      ) => opaque is Opaques<name, variation>;
+      [name in NamesOf<Types, Names, variation>]: (
+        opaque: Members<Names, variation, Types, Brand>,
+      ) => opaque is Members<name, variation, Types, Brand>;
     };
 };
 
@@ -397,53 +411,124 @@ type IsVariations<
  *
  * @returns Type guard result
  */
-type Is<Names extends PossibleNames, Variations extends PossibleVariations> =
-  IsTypes<Names, Variations> &
-    IsVariations<Names, Variations> &
-    IsAll<Names, Variations>;
+type Is<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
+> = IsTypes<Names, Variations, Types, Brand> &
+  IsVariations<Names, Variations, Types, Brand> &
+  IsAll<Names, Variations, Types, Brand>;
 
 type ForTypes<
   Names extends PossibleNames,
   Variations extends PossibleVariations,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  Types extends { [name in Names]: { [variation in Variations]: any } },
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
 > = {
-  [name in Names]: (Variations extends 'default'
+  [name in Names]: (VariationsOf<Types, name, Variations> extends 'default'
     ? {
-        iso: Iso<Opaque<name, Variations>, Types[name][Variations]>;
-        lensFromProp: LensFromProp<name, Variations, Types>;
+        iso: Iso<
+          Opaque<name, 'default', Brand>,
+          PayloadOf<Types, name, 'default'>
+        >;
+        prism: Prism<
+          Members<Names, Variations, Types, Brand>,
+          PayloadOf<Types, name, 'default'>
+        >;
+        lensFromProp: LensFromProp<name, 'default', Types, Brand>;
       }
-    : {}) &
-    {
-      [variation in Variations]: {
-        iso: Iso<Opaque<name, variation>, Types[name][variation]>;
-        lensFromProp: LensFromProp<name, variation, Types>;
-      };
-    } & {
-      fold: Fold<{ [variation in Variations]: Opaque<name, variation> }>;
+    : {}) & {
+    /**
+     * Optional on any variation of the member: `set` and `modify` keep the
+     * variation of the opaque
+     */
+    optional: Optional<
+      Members<Names, Variations, Types, Brand>,
+      PayloadOf<Types, name, VariationsOf<Types, name, Variations>>
+    >;
+  } & {
+      [variation in VariationsOf<Types, name, Variations>]: {
+        iso: Iso<
+          Opaque<name, variation, Brand>,
+          PayloadOf<Types, name, variation>
+        >;
+        prism: Prism<
+          Members<Names, Variations, Types, Brand>,
+          PayloadOf<Types, name, variation>
+        >;
+        lensFromProp: LensFromProp<name, variation, Types, Brand>;
+      } & Update<Types, Opaque<name, variation, Brand>>;
+    } &
+    Update<Types, Members<name, Variations, Types, Brand>> & {
+      fold: Fold<
+        {
+          [variation in VariationsOf<Types, name, Variations>]: Opaque<
+            name,
+            variation,
+            Brand
+          >;
+        }
+      >;
+      match: Match<
+        {
+          [variation in VariationsOf<Types, name, Variations>]: Opaque<
+            name,
+            variation,
+            Brand
+          >;
+        }
+      >;
     };
 };
 
 type ForVariations<
   Names extends PossibleNames,
   Variations extends PossibleVariations,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  Types extends { [name in Names]: { [variation in Variations]: any } },
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
+  Keys extends TagKeys = DefaultTagKeys,
 > = {
   [variation in Variations]: {
     iso: Iso<
-      Opaques<Names, variation>,
-      TaggedTypes<Names, variation, Types>[Names]
+      Members<Names, variation, Types, Brand>,
+      TaggedTypes<Names, variation, Types, Keys>[Names]
     >;
 
-    lensFromProp: LensFromProp<Names, variation, Types>;
-  } & {
-    [name in Names]: {
-      iso: Iso<Opaque<name, variation>, Types[name][variation]>;
-      lensFromProp: LensFromProp<name, variation, Types>;
-    };
-  } & {
-      fold: Fold<{ [name in Names]: Opaque<name, variation> }>;
+    lensFromProp: LensFromProp<Names, variation, Types, Brand>;
+    optionalFromProp: OptionalFromProp<Names, variation, Types, Brand>;
+  } & Update<Types, Members<Names, variation, Types, Brand>> &
+    {
+      [name in NamesOf<Types, Names, variation>]: {
+        iso: Iso<
+          Opaque<name, variation, Brand>,
+          PayloadOf<Types, name, variation>
+        >;
+        prism: Prism<
+          Members<Names, Variations, Types, Brand>,
+          PayloadOf<Types, name, variation>
+        >;
+        lensFromProp: LensFromProp<name, variation, Types, Brand>;
+      } & Update<Types, Opaque<name, variation, Brand>>;
+    } & {
+      fold: Fold<
+        {
+          [name in NamesOf<Types, Names, variation>]: Opaque<
+            name,
+            variation,
+            Brand
+          >;
+        }
+      >;
+      match: Match<
+        {
+          [name in NamesOf<Types, Names, variation>]: Opaque<
+            name,
+            variation,
+            Brand
+          >;
+        }
+      >;
     };
 };
 
@@ -451,8 +536,8 @@ type ForVariations<
  * Some [`monocle-ts`](https://github.com/gcanti/monocle-ts) optics for each
  * member of the union
  *
- * For each member you will get an `Iso<Opaque, Type>` and a `lensFromProp`
- * function
+ * For each member you will get an `Iso<Opaque, Type>`, a
+ * `Prism<Opaques, Type>` and a `lensFromProp` function
  *
  * @example
 ```typescript
@@ -469,6 +554,12 @@ const toOpaque = iso.to;
 ```typescript
 // source :: (image: Image) => string
 export const source = MessageAPI.Image.lensFromProp('source').get;
+```
+ *
+ * @example
+```typescript
+// getImage :: (message: Message) => Option<$Image>
+export const getImage = MessageAPI.Image.prism.getOption;
 ```
  *
  * @typeParam Types - Collection of private types of the union
@@ -477,10 +568,103 @@ export const source = MessageAPI.Image.lensFromProp('source').get;
 type For<
   Names extends PossibleNames,
   Variations extends PossibleVariations,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  Types extends { [name in Names]: { [variation in Variations]: any } },
-> = ForTypes<Names, Variations, Types> &
-  ForVariations<Names, Variations, Types>;
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
+  Keys extends TagKeys = DefaultTagKeys,
+> = ForTypes<Names, Variations, Types, Brand> &
+  ForVariations<Names, Variations, Types, Brand, Keys>;
+
+/**
+ * Options given when creating a union api
+ *
+ * @typeParam Namespace - The namespace of the union
+ * @typeParam T - The transitions between the variations of the union
+ * @typeParam TagKey - The key of the names in the tagged form
+ * @typeParam VariationKey - The key of the variations in the tagged form
+ */
+export type UnionOptions<
+  Namespace extends string = string,
+  T = Transitions<PossibleVariations>,
+  TagKey extends string = string,
+  VariationKey extends string = string,
+> = {
+  /**
+   * Every union has its own brand, stamped on the opaques it creates and
+   * checked by its type guards, folds and optics. This way two unions with a
+   * member of the same name don't accept each other's opaques.
+   *
+   * Without namespace, the brand is unique to the union at runtime but is not
+   * visible at the type level. With a namespace, the namespace itself is the
+   * brand: opaques of unions with different namespaces are not assignable to
+   * each other, and unions created with the same namespace are compatible.
+   *
+   * Unions derived with `omit`, `pick` or `omitVariations` keep the brand of
+   * the original union. Each member of a union created with `merge` keeps the
+   * brand of the union it comes from.
+   */
+  namespace?: Namespace;
+
+  /**
+   * When true, constructors throw an {@link InvalidPayloadError} when the
+   * payload is rejected by the validator given to {@link "type" | `type`}.
+   * Otherwise the opaque is created but will be rejected by the type guards.
+   *
+   * Default to false
+   */
+  strict?: boolean;
+
+  /**
+   * When true, every constructor checks that the union declares the given name
+   * and variation, and throws an {@link UnknownMemberError} otherwise. This
+   * catches typos coming from JavaScript, or `of.Text(value)` on a member
+   * without the `default` variation.
+   *
+   * Default to true, unless `process.env.NODE_ENV` is `'production'`
+   */
+  checks?: boolean;
+
+  /**
+   * When true, the accessors of each name and variation (`<API>.of.<Name>`,
+   * `<API>.is.<Name>`, `<API>.<Name>.<Variation>`, etc.) are only created on
+   * first access, then cached. The union api keeps the same keys, so
+   * `Object.keys` and `in` behave the same.
+   *
+   * Useful for large unions of which only a few members are used.
+   *
+   * Default to false
+   */
+  lazy?: boolean;
+
+  /**
+   * The key holding the name of the members in their tagged form, used by
+   * `<API>.iso` and `<API>.<Variation>.iso`, see {@link Tagged}. Useful to
+   * match an existing format, like the `type` of Redux actions or the
+   * `__typename` of GraphQL.
+   *
+   * Default to `'_tag'`
+   */
+  tagKey?: TagKey;
+
+  /**
+   * The key holding the variation of the members in their tagged form, see
+   * {@link UnionOptions.tagKey}. It must differ from the tag key, and neither
+   * can be `'_value'`, or the union throws a {@link UnionError}.
+   *
+   * Default to `'_variation'`
+   */
+  variationKey?: VariationKey;
+
+  /**
+   * The transitions allowed between the variations, see {@link Transitions}.
+   * For each declared transition, the union api exposes a
+   * `<API>.<Name>.transition.<From>.<To>` function, see {@link Transition}.
+   * The graph itself is exposed as `<API>.transitions`.
+   *
+   * Unions derived with `omit`, `pick`, `merge` or `omitVariations` don't
+   * have the transitions.
+   */
+  transitions?: T;
+};
 
 /**
  * The union api
@@ -491,8 +675,9 @@ type For<
 export type UnionAPIDef<
   Names extends PossibleNames,
   Variations extends PossibleVariations,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  Types extends { [name in Names]: { [variation in Variations]: any } },
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
+  Keys extends TagKeys = DefaultTagKeys,
 > = {
   /**
    * Storing Types object here
@@ -502,20 +687,55 @@ export type UnionAPIDef<
    */
   types: Types;
 
+  /**
+   * Storing options here
+   *
+   * @privateRemarks
+   * Derived unions (merge, omit, etc.) are created with the same options.
+   */
+  options: UnionOptions;
+
+  /**
+   * Storing the brand of each member here
+   *
+   * @privateRemarks
+   * Derived unions keep the brands, see {@link UnionOptions.namespace}.
+   */
+  brands: { [name in Names]: string };
+
+  /**
+   * The brand of the union, at the type level only
+   *
+   * @privateRemarks
+   * Lets the standalone functions infer the brand of the union api they are
+   * given, see {@link Descriptor}.
+   */
+  readonly __BRAND__?: Brand;
+
   /**
    * {@inheritDoc Of}
    */
-  of: Of<Names, Variations, Types>;
+  of: Of<Names, Variations, Types, Brand>;
 
   /**
    * {@inheritDoc Is}
    */
-  is: Is<Names, Variations>;
+  is: Is<Names, Variations, Types, Brand>;
 
   /**
    * {@inheritDoc Fold}
    */
-  fold: Fold<{ [name in Names]: Opaques<name, Variations> }>;
+  fold: Fold<{ [name in Names]: Members<name, Variations, Types, Brand> }>;
+
+  /**
+   * {@inheritDoc FoldAll}
+   */
+  foldAll: FoldAll<Names, Variations, Types, Brand>;
+
+  /**
+   * {@inheritDoc Match}
+   */
+  match: Match<{ [name in Names]: Members<name, Variations, Types, Brand> }>;
 
   /**
    * Iso between any member of the union and any private types (tagged)
@@ -523,15 +743,101 @@ export type UnionAPIDef<
    * {@link Tagged}
    */
   iso: Iso<
-    Opaques<Names, Variations>,
-    TaggedTypes<Names, Variations, Types>[Names]
+    Members<Names, Variations, Types, Brand>,
+    TaggedTypes<Names, Variations, Types, Keys>[Names]
   >;
 
   /**
    * {@inheritDoc LensFromProp}
    */
-  lensFromProp: LensFromProp<Names, Variations, Types>;
-} & For<Names, Variations, Types>;
+  lensFromProp: LensFromProp<Names, Variations, Types, Brand>;
+
+  /**
+   * {@inheritDoc OptionalFromProp}
+   */
+  optionalFromProp: OptionalFromProp<Names, Variations, Types, Brand>;
+
+  /**
+   * {@inheritDoc Codec}
+   */
+  codec: Codec<Names, Variations, Types, Brand>;
+
+  /**
+   * Get the [JSON Schema](https://json-schema.org) of the JSON representation
+   * of the members, as encoded by `codec`. It is a `oneOf` with one schema per
+   * name and variation, the payloads being described by the `schema` option
+   * of {@link "type" | `type`}.
+   *
+   * @example
+```typescript
+  MessageAPI.toJSONSchema();
+  // { oneOf: [
+  //   {
+  //     type: 'object',
+  //     properties: {
+  //       name: { const: 'Text' },
+  //       variation: { const: 'Sent' },
+  //       payload: { type: 'string' },
+  //     },
+  //     required: ['name', 'variation', 'payload'],
+  //     additionalProperties: false,
+  //   },
+  //   ...
+  // ] }
+```
+   */
+  toJSONSchema: () => JSONSchema;
+
+  /**
+   * {@inheritDoc Make}
+   */
+  make: Make<Names, Variations, Types, Brand>;
+
+  /**
+   * {@inheritDoc Equality.equals}
+   */
+  equals: Equality<Members<Names, Variations, Types, Brand>>['equals'];
+
+  /**
+   * {@inheritDoc Equality.hash}
+   */
+  hash: Equality<Members<Names, Variations, Types, Brand>>['hash'];
+
+  /**
+   * {@inheritDoc Equality.eq}
+   */
+  eq: Equality<Members<Names, Variations, Types, Brand>>['eq'];
+
+  /**
+   * {@inheritDoc Sorting.ord}
+   */
+  ord: Sorting<Members<Names, Variations, Types, Brand>>['ord'];
+
+  /**
+   * {@inheritDoc Sorting.sort}
+   */
+  sort: Sorting<Members<Names, Variations, Types, Brand>>['sort'];
+
+  /**
+   * {@inheritDoc Show}
+   */
+  show: Show<Members<Names, Variations, Types, Brand>>;
+
+  /**
+   * {@inheritDoc Update.update}
+   */
+  update: Update<Types, Members<Names, Variations, Types, Brand>>['update'];
+
+  /**
+   * {@inheritDoc Recursion.cata}
+   */
+  cata: Recursion<Names, Variations, Types, Brand>['cata'];
+
+  /**
+   * {@inheritDoc Recursion.para}
+   */
+  para: Recursion<Names, Variations, Types, Brand>['para'];
+} & For<Names, Variations, Types, Brand, Keys>;
 
 /**
  * This will extract all opaque types of a union API. This is more robust to
@@ -559,10 +865,11 @@ export type Message = Union.Type<typeof MessageAPI>;
 export type Type<Def, VariationFilter = string> = Def extends UnionAPIDef<
   infer Names,
   infer Variations,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  any
+  infer Types,
+  infer Brand,
+  infer _Keys
 >
-  ? Opaques<Names, Variations & VariationFilter>
+  ? Members<Names, Variations & VariationFilter, Types, Brand>
   : never;
 
 /**
@@ -590,9 +897,11 @@ const MessageAPI = Union.of({
 ```
  *
  * @typeParam Types - The collection of private types for the union
+ * @typeParam Namespace - The namespace of the union, if any
  *
  * @param  types - The map of names and results of {@link "type" | `type`}
  *                 function
+ * @param  options - The union options, see {@link UnionOptions}
  *
  * @returns A union api
  */
@@ -603,464 +912,485 @@ export function ofVariations<
       [key: string]: any;
     };
   },
->(types: Types): UnionAPIDef<keyof Types, keyof Types[keyof Types], Types> {
+  Namespace extends string = never,
+  T extends Transitions<AllVariations<Types>> = never,
+  TagKey extends string = '_tag',
+  VariationKey extends string = '_variation',
+>(
+  types: Types,
+  options: UnionOptions<Namespace, T, TagKey, VariationKey> &
+    ValidTagKeys<TagKey, VariationKey> = {},
+): UnionAPIDef<
+  keyof Types,
+  AllVariations<Types>,
+  Types,
+  BrandOf<Namespace>,
+  { tag: TagKey; variation: VariationKey }
+> &
+  TransitionsAPI<
+    keyof Types,
+    AllVariations<Types>,
+    Types,
+    BrandOf<Namespace>,
+    T
+  > {
+  const api = create<
+    Types,
+    BrandOf<Namespace>,
+    { tag: TagKey; variation: VariationKey }
+  >(types, options, brandsOf(types, options.namespace));
+
+  if (options.transitions === undefined) {
+    return api as typeof api &
+      TransitionsAPI<
+        keyof Types,
+        AllVariations<Types>,
+        Types,
+        BrandOf<Namespace>,
+        T
+      >;
+  }
+
+  return withTransitions(api, types, options.transitions) as typeof api &
+    TransitionsAPI<
+      keyof Types,
+      AllVariations<Types>,
+      Types,
+      BrandOf<Namespace>,
+      T
+    >;
+}
+
+/**
+ * Create the union api of the given types, stamping the opaques of each member
+ * with the given brand
+ *
+ * @internal
+ */
+function create<
+  Types extends {
+    [key in keyof Types]: {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      [key: string]: any;
+    };
+  },
+  Brand,
+  Keys extends TagKeys = DefaultTagKeys,
+>(
+  types: Types,
+  options: UnionOptions,
+  brands: { [name in keyof Types]: string },
+): UnionAPIDef<keyof Types, AllVariations<Types>, Types, Brand, Keys> {
   type Names = keyof Types;
-  type Variations = keyof Types[keyof Types];
+  type Variations = AllVariations<Types>;
 
-  const names = Object.keys(types) as Names[];
-  const variations = Object.keys(types[names[0]]) as Variations[];
+  const keys = tagKeysOf(options);
 
-  const ofsTypes = names.reduce((localOfTypes, name) => {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const defaultOf = function (variation: any, value: any) {
-      if (arguments.length <= 1) {
-        // eslint-disable-next-line no-param-reassign
-        value = variation;
-        // eslint-disable-next-line no-param-reassign
-        variation = 'default';
-      }
+  const names = Object.keys(types) as Names[];
 
-      return {
-        __OPAQUE__: '__OPAQUE__',
-        __OPAQUE_KEY__: name,
-        __OPAQUE_VARIATION__: variation,
-        value,
-      };
-    };
+  /**
+   * The variations of each name and the names of each variation, computed in
+   * a single pass
+   */
+  const variationsByName = {} as { [name in Names]: Variations[] };
+  const namesByVariation = {} as { [variation in Variations]: Names[] };
+  const variations: Variations[] = [];
 
-    variations.forEach((variation) => {
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      defaultOf[variation] = (value: any) => ({
-        __OPAQUE__: '__OPAQUE__',
-        __OPAQUE_KEY__: name,
-        __OPAQUE_VARIATION__: variation,
-        value,
-      });
-    });
+  names.forEach((name) => {
+    const localVariations = Object.keys(types[name]) as Variations[];
 
-    return {
-      ...localOfTypes,
-      [name]: defaultOf,
-    };
-  }, {}) as OfTypes<Names, Variations, Types>;
+    variationsByName[name] = localVariations;
 
-  const ofsVariations = variations.reduce((localOfVariations, variation) => {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const defaultOf = (name: string, value: any) => ({
-      __OPAQUE__: '__OPAQUE__',
-      __OPAQUE_KEY__: name,
-      __OPAQUE_VARIATION__: variation,
-      value,
-    });
+    localVariations.forEach((variation) => {
+      if (!Object.prototype.hasOwnProperty.call(namesByVariation, variation)) {
+        namesByVariation[variation] = [];
+        variations.push(variation);
+      }
 
-    names.forEach((name) => {
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      defaultOf[name] = (value: any) => ({
-        __OPAQUE__: '__OPAQUE__',
-        __OPAQUE_KEY__: name,
-        __OPAQUE_VARIATION__: variation,
-        value,
-      });
+      namesByVariation[variation].push(name);
     });
+  });
 
-    return {
-      ...localOfVariations,
-      [variation]: defaultOf,
-    };
-  }, {}) as OfVariations<Names, Variations, Types>;
+  const variationsOf = (name: Names) => variationsByName[name];
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const ofAll = ((name: Names, variation: Variations, value: any) => ({
-    __OPAQUE__: '__OPAQUE__',
-    __OPAQUE_KEY__: name,
-    __OPAQUE_VARIATION__: variation,
-    value,
-  })) as OfAll<Names, Variations, Types> &
-    OfTypes<Names, Variations, Types> &
-    OfVariations<Names, Variations, Types>;
+  const namesOf = (variation: Variations) => namesByVariation[variation];
 
-  names.forEach((name) => {
-    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-    // @ts-ignore
-    ofAll[name] = ofsTypes[name];
-  });
+  const { show, isOpaque, isDeclared, assertDeclared, guard, unwrap, build } =
+    createOpaques<Names, Variations, Types, Brand>(types, options, brands);
 
-  variations.forEach((variation) => {
-    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-    // @ts-ignore
-    ofAll[variation] = ofsVariations[variation];
-  });
-
-  const isTypes = names.reduce((localIsTypes, name) => {
-    const defaultIs = (thing: Opaque<Names, Variations>) => {
-      if (typeof thing !== 'object') {
-        return false;
-      }
-
-      if (
-        !(
-          '__OPAQUE__' in thing &&
-          // eslint-disable-next-line no-underscore-dangle
-          thing.__OPAQUE__ === '__OPAQUE__' &&
-          '__OPAQUE_KEY__' in thing &&
-          '__OPAQUE_VARIATION__' in thing
-        )
-      ) {
-        return false;
-      }
-
-      // eslint-disable-next-line no-underscore-dangle
-      if (thing.__OPAQUE_KEY__ !== name) {
-        return false;
-      }
+  /**
+   * The update functions of the opaques of the given name and variation, any
+   * if not given
+   */
+  const updateOf = (name?: Names, variation?: Variations) =>
+    createUpdate<
+      Types,
+      Members<Names, Variations, Types, Brand>,
+      Names,
+      Variations,
+      Brand
+    >(
+      unwrap,
+      build,
+      (opaque) =>
+        // eslint-disable-next-line no-underscore-dangle
+        (name === undefined || opaque.__OPAQUE_KEY__ === name) &&
+        // eslint-disable-next-line no-underscore-dangle
+        (variation === undefined || opaque.__OPAQUE_VARIATION__ === variation),
+    );
 
-      // eslint-disable-next-line no-underscore-dangle
-      if (variations.includes(thing.__OPAQUE_VARIATION__)) {
-        return true;
-      }
+  const { update } = updateOf();
 
-      return false;
-    };
+  /**
+   * Define the accessor of a name or a variation, only created on first access
+   * in lazy mode, see {@link UnionOptions.lazy}
+   */
+  const define = (object: object, key: PropertyKey, create: () => unknown) => {
+    if (options.lazy) {
+      defineLazy(object, key, create);
+    } else {
+      (object as { [key: string]: unknown })[key as string] = create();
+    }
+  };
 
-    variations.forEach((variation) => {
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      defaultIs[variation] = (thing: Opaque<Names, Variations>) => {
-        if (typeof thing !== 'object') {
-          return false;
-        }
+  const ofsTypes = {} as OfTypes<Names, Variations, Types, Brand>;
 
-        if (
-          !(
-            '__OPAQUE__' in thing &&
-            // eslint-disable-next-line no-underscore-dangle
-            thing.__OPAQUE__ === '__OPAQUE__' &&
-            '__OPAQUE_KEY__' in thing &&
-            '__OPAQUE_VARIATION__' in thing
-          )
-        ) {
-          return false;
+  names.forEach((name) => {
+    define(ofsTypes, name, () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const defaultOf = function (variation: any, value: any) {
+        if (arguments.length <= 1) {
+          // eslint-disable-next-line no-param-reassign
+          value = variation;
+          // eslint-disable-next-line no-param-reassign
+          variation = 'default';
         }
 
-        // eslint-disable-next-line no-underscore-dangle
-        if (thing.__OPAQUE_KEY__ !== name) {
-          return false;
-        }
+        return build(name, variation, value);
+      };
 
-        // eslint-disable-next-line no-underscore-dangle
-        if (thing.__OPAQUE_VARIATION__ === variation) {
-          return true;
-        }
+      variationsOf(name).forEach((variation) => {
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        defaultOf[variation] = (value: any) => build(name, variation, value);
+      });
 
-        return false;
-      };
+      return defaultOf;
     });
+  });
 
-    return {
-      ...localIsTypes,
-      [name]: defaultIs,
-    };
-  }, {}) as IsTypes<Names, Variations>;
+  const ofsVariations = {} as OfVariations<Names, Variations, Types, Brand>;
 
-  const isVariations = variations.reduce((localIsVariations, variation) => {
-    const defaultIs = (thing: Opaque<Names, Variations>) => {
-      if (typeof thing !== 'object') {
-        return false;
-      }
+  variations.forEach((variation) => {
+    define(ofsVariations, variation, () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const defaultOf = (name: Names, value: any) =>
+        build(name, variation, value);
 
-      if (
-        !(
-          '__OPAQUE__' in thing &&
-          // eslint-disable-next-line no-underscore-dangle
-          thing.__OPAQUE__ === '__OPAQUE__' &&
-          '__OPAQUE_KEY__' in thing &&
-          '__OPAQUE_VARIATION__' in thing
-        )
-      ) {
-        return false;
-      }
+      namesOf(variation).forEach((name) => {
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        defaultOf[name] = (value: any) => build(name, variation, value);
+      });
 
-      // eslint-disable-next-line no-underscore-dangle
-      if (thing.__OPAQUE_VARIATION__ !== variation) {
-        return false;
-      }
+      return defaultOf;
+    });
+  });
 
-      // eslint-disable-next-line no-underscore-dangle
-      if (names.includes(thing.__OPAQUE_KEY__)) {
-        return true;
-      }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const ofAll = ((name: Names, variation: Variations, value: any) =>
+    build(name, variation, value)) as OfAll<Names, Variations, Types, Brand> &
+    OfTypes<Names, Variations, Types, Brand> &
+    OfVariations<Names, Variations, Types, Brand>;
 
-      return false;
-    };
+  names.forEach((name) => {
+    define(ofAll, name, () => ofsTypes[name]);
+  });
 
-    names.forEach((name) => {
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      defaultIs[name] = (thing: Opaque<Names, Variations>) => {
-        if (typeof thing !== 'object') {
-          return false;
-        }
+  variations.forEach((variation) => {
+    define(ofAll, variation, () => ofsVariations[variation]);
+  });
 
-        if (
-          !(
-            '__OPAQUE__' in thing &&
-            // eslint-disable-next-line no-underscore-dangle
-            thing.__OPAQUE__ === '__OPAQUE__' &&
-            '__OPAQUE_KEY__' in thing &&
-            '__OPAQUE_VARIATION__' in thing
-          )
-        ) {
-          return false;
-        }
+  const isTypes = {} as IsTypes<Names, Variations, Types, Brand>;
 
-        // eslint-disable-next-line no-underscore-dangle
-        if (thing.__OPAQUE_KEY__ !== name) {
-          return false;
-        }
+  names.forEach((name) => {
+    define(isTypes, name, () => {
+      const isType = (thing: unknown) => guard(thing, name);
 
-        // eslint-disable-next-line no-underscore-dangle
-        if (thing.__OPAQUE_VARIATION__ === variation) {
-          return true;
-        }
+      variationsOf(name).forEach((variation) => {
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        isType[variation] = (thing: unknown) => guard(thing, name, variation);
+      });
 
-        return false;
-      };
+      return isType;
     });
+  });
 
-    return {
-      ...localIsVariations,
-      [variation]: defaultIs,
-    };
-  }, {}) as IsVariations<Names, Variations>;
+  const isVariations = {} as IsVariations<Names, Variations, Types, Brand>;
 
-  const isAll = ((
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    thing: any,
-  ): thing is Opaques<Names, Variations> => {
-    if (typeof thing !== 'object') {
-      return false;
-    }
-
-    if (
-      !(
-        '__OPAQUE__' in thing &&
-        // eslint-disable-next-line no-underscore-dangle
-        thing.__OPAQUE__ === '__OPAQUE__' &&
-        '__OPAQUE_KEY__' in thing &&
-        '__OPAQUE_VARIATION__' in thing
-      )
-    ) {
-      return false;
-    }
-
-    // eslint-disable-next-line no-underscore-dangle
-    const keyIndex = names.indexOf(thing.__OPAQUE_KEY__);
+  variations.forEach((variation) => {
+    define(isVariations, variation, () => {
+      const isVariation = (thing: unknown) =>
+        guard(thing, undefined, variation);
 
-    if (keyIndex === -1) {
-      return false;
-    }
+      namesOf(variation).forEach((name) => {
+        // the guards of the members are shared with isTypes
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        isVariation[name] = isTypes[name][variation];
+      });
 
-    // eslint-disable-next-line no-underscore-dangle
-    if (variations.includes(thing.__OPAQUE_VARIATION__)) {
-      return true;
-    }
+      return isVariation;
+    });
+  });
 
-    return false;
-  }) as IsAll<Names, Variations> &
-    IsTypes<Names, Variations> &
-    IsVariations<Names, Variations>;
+  const isAll = ((
+    thing: unknown,
+  ): thing is Members<Names, Variations, Types, Brand> =>
+    guard(thing)) as IsAll<Names, Variations, Types, Brand> &
+    IsTypes<Names, Variations, Types, Brand> &
+    IsVariations<Names, Variations, Types, Brand>;
 
   names.forEach((name) => {
-    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-    // @ts-ignore
-    isAll[name] = isTypes[name];
+    define(isAll, name, () => isTypes[name]);
   });
 
   variations.forEach((variation) => {
+    define(isAll, variation, () => isVariations[variation]);
+  });
+
+  const foldAll = createFold(
+    isTypes as unknown as { [name: string]: (thing: unknown) => boolean },
+  ) as Fold<{ [name in Names]: Members<name, Variations, Types, Brand> }>;
+
+  const isMember = (name: Names, variation: Variations) => (thing: unknown) =>
     // eslint-disable-next-line @typescript-eslint/ban-ts-comment
     // @ts-ignore
-    isAll[variation] = isVariations[variation];
-  });
+    isTypes[name][variation](thing) as boolean;
 
-  // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-  // @ts-ignore
-  const foldAll = createFoldObject(isTypes) as Fold<
-    { [name in Names]: Opaques<name, Variations> }
-  >;
+  const prismOf = (name: Names, variation: Variations) =>
+    new Prism<
+      Members<Names, Variations, Types, Brand>,
+      PayloadOf<Types, Names, Variations>
+    >(
+      (opaque) =>
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        isTypes[name][variation](opaque)
+          ? some(opaque.value as PayloadOf<Types, Names, Variations>)
+          : none,
+      (value) => build(name, variation, value),
+    );
 
-  const forTypes = names.reduce((localForTypes, name) => {
-    const get = (opaque: Opaque<Names, Variations>) => {
-      return opaque.value as Types[Names][Variations];
-    };
+  const optionalFromProp = (<Prop extends PossibleNames>(prop: Prop) => {
+    const hasProp = (value: unknown): value is { [key in Prop]: unknown } =>
+      isPlainObject(value) && Object.prototype.hasOwnProperty.call(value, prop);
 
-    const defaultFor = (() => {
-      const reverseGet = ofsTypes[name as Names].default;
+    return new Optional<Members<Names, Variations, Types, Brand>, unknown>(
+      (opaque) => {
+        const value = unwrap(opaque);
 
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      const iso = new Iso(get, reverseGet);
-
-      return {
-        ...localForTypes,
-        [name]: {
-          iso,
-          lensFromProp: <Prop>(prop: Prop) => {
-            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-            // @ts-ignore
-            const lens = Lens.fromProp()(prop);
-
-            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-            // @ts-ignore
-            return iso.composeLens(lens);
-          },
-          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-          // @ts-ignore
-          fold: createFoldObject(isVariations),
-        },
-      };
-    })();
+        return hasProp(value) ? some(value[prop]) : none;
+      },
+      (propValue) => (opaque) => {
+        const value = unwrap(opaque);
 
-    variations.forEach((variation) => {
-      const reverseGet = ofsTypes[name as Names][variation as Variations];
+        if (!hasProp(value)) {
+          return opaque;
+        }
 
+        return build(
+          // eslint-disable-next-line no-underscore-dangle
+          opaque.__OPAQUE_KEY__,
+          // eslint-disable-next-line no-underscore-dangle
+          opaque.__OPAQUE_VARIATION__,
+          { ...value, [prop]: propValue },
+        );
+      },
+    );
+  }) as OptionalFromProp<Names, Variations, Types, Brand>;
+
+  const lensFromPropOf =
+    (
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      localIso: Iso<any, any>,
+    ) =>
+    <Prop>(prop: Prop) => {
       // eslint-disable-next-line @typescript-eslint/ban-ts-comment
       // @ts-ignore
-      const iso = new Iso(get, reverseGet);
+      const lens = Lens.fromProp()(prop);
 
-      const variationLenses = {
-        iso,
-        lensFromProp: <Prop>(prop: Prop) => {
-          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-          // @ts-ignore
-          const lens = Lens.fromProp()(prop);
+      return localIso.composeLens(lens);
+    };
 
-          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-          // @ts-ignore
-          return iso.composeLens(lens);
-        },
-      };
+  /**
+   * The optics of a member, created on first use
+   */
+  const opticsOf = (
+    name: Names,
+    variation: Variations,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    reverseGet: (value: any) => Opaque<Names, Variations, Brand>,
+  ) => {
+    const optics: { [key: string]: unknown } = { ...updateOf(name, variation) };
 
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      defaultFor[name][variation] = variationLenses;
-    });
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore
+    defineLazy(optics, 'iso', () => new Iso(unwrap, reverseGet));
+    defineLazy(optics, 'prism', () => prismOf(name, variation));
+    defineLazy(optics, 'lensFromProp', () =>
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      lensFromPropOf(optics.iso as Iso<any, any>),
+    );
 
-    return defaultFor;
-  }, {}) as ForTypes<Names, Variations, Types>;
+    return optics;
+  };
 
-  const forVariations = variations.reduce((localForVariations, variation) => {
-    const get = (opaque: Opaque<Names, Variations>) => {
-      return opaque.value as Types[Names][Variations];
-    };
+  /**
+   * The optional of a member on any of its variations
+   */
+  const memberOptionalOf = (name: Names) => {
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore
+    const isName = (opaque: unknown) => isTypes[name](opaque) as boolean;
 
-    const iso = new Iso<
-      Opaques<Names, Variations>,
-      TaggedTypes<Names, Variations, Types>[Names]
+    return new Optional<
+      Members<Names, Variations, Types, Brand>,
+      PayloadOf<Types, Names, Variations>
     >(
-      (opaque: Opaques<Names, Variations>) => ({
-        // eslint-disable-next-line no-underscore-dangle
-        _tag: opaque.__OPAQUE_KEY__,
-        _variation: variation,
-        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-        // @ts-ignore
-        ...opaque.value,
-      }),
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      ({
-        _tag,
-        _variation,
-        ...value
-      }: TaggedTypes<Names, Variations, Types>[Names]) => ({
-        __OPAQUE__: '__OPAQUE__',
-        __OPAQUE_KEY__: _tag,
-        __OPAQUE_VARIATION__: variation,
-        value,
-      }),
+      (opaque) =>
+        isName(opaque)
+          ? some(opaque.value as PayloadOf<Types, Names, Variations>)
+          : none,
+      (value) => (opaque) =>
+        isName(opaque)
+          ? // eslint-disable-next-line no-underscore-dangle
+            build(name, opaque.__OPAQUE_VARIATION__, value)
+          : opaque,
     );
+  };
 
-    const lensFromProp = (<Prop>(prop: Prop) => {
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      const lens = Lens.fromProp()(prop);
+  const forTypes = {} as { [name: string]: { [key: string]: unknown } };
 
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      return iso.composeLens(lens);
-    }) as <P extends keyof Types[Names][Variations]>(
-      prop: P,
-    ) => Lens<Opaques<Names, Variations>, Types[Names][Variations][P]>;
+  names.forEach((name) => {
+    define(forTypes, name, () => {
+      // iso, prism and lensFromProp need the "default" variation to build
+      // opaques
+      const forType = variationsOf(name).includes('default' as Variations)
+        ? // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+          // @ts-ignore
+          opticsOf(name, 'default', ofsTypes[name].default)
+        : {};
 
-    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-    // @ts-ignore
-    const fold = createFoldObject(isTypes);
-
-    const newForVariations = {
-      ...localForVariations,
-      [variation]: {
-        iso,
-        lensFromProp,
-        fold,
-      },
-    };
+      Object.assign(forType, updateOf(name));
 
-    names.forEach((name) => {
-      const reverseGet = ofsVariations[variation as Variations][name as Names];
+      defineLazy(forType, 'optional', () => memberOptionalOf(name));
 
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      const localIso = new Iso(get, reverseGet);
+      const guards: { [variation: string]: (thing: unknown) => boolean } = {};
+
+      variationsOf(name).forEach((variation) => {
+        guards[variation as string] = isMember(name, variation);
+      });
 
-      const nameLenses = {
-        iso: localIso,
-        lensFromProp: <Prop>(prop: Prop) => {
+      defineLazy(forType, 'fold', () => createFold(guards));
+      defineLazy(forType, 'match', () => createMatchObject(guards));
+
+      variationsOf(name).forEach((variation) => {
+        forType[variation as string] = opticsOf(
+          name,
+          variation,
           // eslint-disable-next-line @typescript-eslint/ban-ts-comment
           // @ts-ignore
-          const lens = Lens.fromProp()(prop);
+          ofsTypes[name][variation],
+        );
+      });
+
+      return forType;
+    });
+  });
+
+  const forVariations = {} as {
+    [variation: string]: { [key: string]: unknown };
+  };
+
+  variations.forEach((variation) => {
+    define(forVariations, variation, () => {
+      const forVariation: { [key: string]: unknown } = {
+        optionalFromProp,
+        ...updateOf(undefined, variation),
+      };
+
+      defineLazy(
+        forVariation,
+        'iso',
+        () =>
+          new Iso<
+            Members<Names, Variations, Types, Brand>,
+            TaggedTypes<Names, Variations, Types, Keys>[Names]
+          >(
+            (opaque: Members<Names, Variations, Types, Brand>) =>
+              toTagged(
+                keys,
+                // eslint-disable-next-line no-underscore-dangle
+                opaque.__OPAQUE_KEY__,
+                variation,
+                unwrap(opaque),
+              ) as TaggedTypes<Names, Variations, Types, Keys>[Names],
+            (tagged: TaggedTypes<Names, Variations, Types, Keys>[Names]) => {
+              const { name, payload } = fromTagged(keys, tagged);
+
+              return build(name as Names, variation, payload);
+            },
+          ),
+      );
+      defineLazy(forVariation, 'lensFromProp', () =>
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        lensFromPropOf(forVariation.iso as Iso<any, any>),
+      );
+      const guards: { [name: string]: (thing: unknown) => boolean } = {};
+
+      namesOf(variation).forEach((name) => {
+        guards[name as string] = isMember(name, variation);
+      });
 
+      defineLazy(forVariation, 'fold', () => createFold(guards));
+      defineLazy(forVariation, 'match', () => createMatchObject(guards));
+
+      namesOf(variation).forEach((name) => {
+        forVariation[name as string] = opticsOf(
+          name,
+          variation,
           // eslint-disable-next-line @typescript-eslint/ban-ts-comment
           // @ts-ignore
-          return localIso.composeLens(lens);
-        },
-      };
+          ofsVariations[variation][name],
+        );
+      });
 
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      newForVariations[variation][name] = nameLenses;
+      return forVariation;
     });
-
-    return newForVariations;
-  }, {}) as ForVariations<Names, Variations, Types>;
+  });
 
   const iso = new Iso<
-    Opaques<Names, Variations>,
-    TaggedTypes<Names, Variations, Types>[Names]
+    Members<Names, Variations, Types, Brand>,
+    TaggedTypes<Names, Variations, Types, Keys>[Names]
   >(
-    (opaque: Opaques<Names, Variations>) => ({
-      // eslint-disable-next-line no-underscore-dangle
-      _tag: opaque.__OPAQUE_KEY__,
-      // eslint-disable-next-line no-underscore-dangle
-      _variation: opaque.__OPAQUE_VARIATION__,
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      ...opaque.value,
-    }),
-    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-    // @ts-ignore
-    ({
-      _tag,
-      _variation,
-      ...value
-    }: TaggedTypes<Names, Variations, Types>[Names]) => ({
-      __OPAQUE__: '__OPAQUE__',
-      __OPAQUE_KEY__: _tag,
-      __OPAQUE_VARIATION__: _variation,
-      value,
-    }),
+    (opaque: Members<Names, Variations, Types, Brand>) =>
+      toTagged(
+        keys,
+        // eslint-disable-next-line no-underscore-dangle
+        opaque.__OPAQUE_KEY__,
+        // eslint-disable-next-line no-underscore-dangle
+        opaque.__OPAQUE_VARIATION__,
+        unwrap(opaque),
+      ) as TaggedTypes<Names, Variations, Types, Keys>[Names],
+    (tagged: TaggedTypes<Names, Variations, Types, Keys>[Names]) => {
+      const { name, variation, payload } = fromTagged(keys, tagged);
+
+      return build(name as Names, variation as Variations, payload);
+    },
   );
 
   const lensFromProp = (<Prop>(prop: Prop) => {
@@ -1071,20 +1401,56 @@ export function ofVariations<
     // eslint-disable-next-line @typescript-eslint/ban-ts-comment
     // @ts-ignore
     return iso.composeLens(lens);
-  }) as <P extends keyof Types[Names][Variations]>(
+  }) as <P extends keyof PayloadOf<Types, Names, Variations>>(
     prop: P,
-  ) => Lens<Opaques<Names, Variations>, Types[Names][Variations][P]>;
+  ) => Lens<
+    Members<Names, Variations, Types, Brand>,
+    PayloadOf<Types, Names, Variations>[P]
+  >;
 
-  return {
+  const api = {
     types,
+    options,
+    brands,
     of: ofAll,
     is: isAll,
     fold: foldAll,
+    foldAll: createFoldAll(types, isAll),
+    match:
+      createMatchObject<
+        { [name in Names]: Members<name, Variations, Types, Brand> }
+      >(isTypes),
     iso,
     lensFromProp,
-    ...forTypes,
-    ...forVariations,
+    optionalFromProp,
+    codec: createCodec(types, ofAll, assertDeclared),
+    toJSONSchema: createToJSONSchema(types),
+    make: createMake(types, ofAll),
+    ...createEquality<Members<Names, Variations, Types, Brand>>(
+      types,
+      isDeclared,
+      assertDeclared,
+    ),
+    ...createSorting<Members<Names, Variations, Types, Brand>>(
+      types,
+      assertDeclared,
+    ),
+    show,
+    update,
+    ...createRecursion<Names, Variations, Types, Brand>(isOpaque),
   };
+
+  names.forEach((name) => {
+    define(api, name, () => forTypes[name as string]);
+  });
+
+  variations.forEach((variation) => {
+    define(api, variation, () => forVariations[variation as string]);
+  });
+
+  return api as typeof api &
+    ForTypes<Names, Variations, Types, Brand> &
+    ForVariations<Names, Variations, Types, Brand, Keys>;
 }
 
 /**
@@ -1095,16 +1461,159 @@ export function ofVariations<
 export function of<
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   Types extends { [key in keyof Types]: any },
->(types: Types) {
-  type Names = keyof Types;
+  Namespace extends string = never,
+  TagKey extends string = '_tag',
+  VariationKey extends string = '_variation',
+>(
+  types: Types,
+  options: UnionOptions<Namespace, never, TagKey, VariationKey> &
+    ValidTagKeys<TagKey, VariationKey> = {},
+) {
+  const realTypes = defaultVariations(types);
 
-  const realTypes = {} as { [name in Names]: { default: Types[name] } };
+  return ofVariations<typeof realTypes, Namespace, never, TagKey, VariationKey>(
+    realTypes,
+    options,
+  );
+}
 
-  Object.keys(types).forEach((name) => {
-    realTypes[name as Names] = { default: types[name as Names] };
+/**
+ * Define a generic union once and instantiate it for each set of type
+ * parameters
+ *
+ * @remarks
+ * The definition is called once: every instantiation returns the same union
+ * api, typed for the given type parameters. The type parameters only exist at
+ * the type level: the opaques of every instantiation belong to the same union.
+ *
+ * @example
+```typescript
+const RemoteDataAPI = Union.generic(<E, A>() =>
+  Union.of({
+    NotAsked: Union.type<null>(),
+    Loading: Union.type<null>(),
+    Failure: Union.type<E>(),
+    Success: Union.type<A>(),
+  }),
+);
+
+const UserDataAPI = RemoteDataAPI<Error, User>();
+
+UserDataAPI.of.Success(user);
+```
+ *
+ * @typeParam Definition - The generic function creating the union api
+ *
+ * @returns The generic function returning the union api
+ */
+export function generic<Definition extends () => unknown>(
+  definition: Definition,
+): Definition {
+  const api = definition();
+
+  return (() => api) as Definition;
+}
+
+/**
+ * Create a union api from an existing discriminated union type
+ *
+ * @remarks
+ * The names of the union are the values of the discriminant, each with a
+ * single "default" variation, and the payloads are the members without the
+ * discriminant. The names are given at runtime too: the type checks that none
+ * is missing.
+ *
+ * `<API>.adapter` is an `Iso` between the opaques and the values of the
+ * discriminated union, to convert existing values to opaques and back.
+ *
+ * When T has several discriminants, or to give a namespace, give all the type
+ * parameters: `fromDiscriminated<Legacy, 'kind', 'chat'>(...)`.
+ *
+ * @example
+```typescript
+type LegacyMessage =
+  | { kind: 'text'; content: string }
+  | { kind: 'image'; source: string };
+
+const MessageAPI = Union.fromDiscriminated<LegacyMessage>('kind', {
+  text: true,
+  image: true,
+});
+
+MessageAPI.of.text({ content: 'hello' });
+
+const message = MessageAPI.adapter.reverseGet({ kind: 'text', content: 'hello' });
+MessageAPI.adapter.get(message); // { kind: 'text', content: 'hello' }
+```
+ *
+ * @typeParam T - The discriminated union
+ * @typeParam Key - The discriminant of T, inferred when T has only one
+ * @typeParam Namespace - The namespace of the union, if any
+ *
+ * @param key - The discriminant of T
+ * @param names - Every value of the discriminant
+ * @param options - The union options, see {@link UnionOptions}. The tagged
+ *                  form keys are not configurable, the adapter being the
+ *                  tagged form of such unions
+ *
+ * @returns A union api, with the adapter
+ */
+export function fromDiscriminated<
+  T extends object,
+  Key extends DiscriminantKeys<T> & keyof T = DiscriminantKeys<T> & keyof T,
+  Namespace extends string = never,
+>(
+  key: Key,
+  names: { [name in DiscriminantsOf<T, Key>]: true },
+  options: Omit<
+    UnionOptions<Namespace, never>,
+    'tagKey' | 'variationKey' | 'transitions'
+  > = {},
+) {
+  const types = {} as DiscriminatedTypes<T, Key>;
+
+  (Object.keys(names) as DiscriminantsOf<T, Key>[]).forEach((name) => {
+    types[name] = type();
+  });
+
+  const api = of<DiscriminatedTypes<T, Key>, Namespace>(types, options);
+
+  type Opaques = Type<typeof api>;
+
+  const forNames = api as unknown as {
+    [name: string]: { iso: Iso<Opaques, object> };
+  };
+  const build = api.of as unknown as (
+    name: PossibleNames,
+    variation: 'default',
+    payload: object,
+  ) => Opaques;
+
+  return Object.assign(api, {
+    adapter: createAdapter<Opaques, T>(
+      key as string,
+      (name) => forNames[name as string].iso,
+      (name, payload) => build(name, 'default', payload),
+    ),
   });
+}
 
-  return ofVariations<typeof realTypes>(realTypes);
+/**
+ * Keep the brands of the given names only
+ *
+ * @internal
+ */
+function pickBrands<Names extends PossibleNames>(
+  brands: { [name in PossibleNames]: string },
+  names: Names[],
+) {
+  const picked = {} as { [name in Names]: string };
+
+  names.forEach((name) => {
+    picked[name] = brands[name];
+  });
+
+  return picked;
 }
 
 /**
@@ -1128,26 +1637,34 @@ export function omit<
     };
   },
   OmittedKeys extends keyof Types,
+  Brand = unknown,
+  Keys extends TagKeys = DefaultTagKeys,
 >(
-  union: UnionAPIDef<keyof Types, keyof Types[keyof Types], Types>,
+  union: UnionAPIDef<keyof Types, AllVariations<Types>, Types, Brand, Keys>,
   omittedKeys: OmittedKeys[],
 ): UnionAPIDef<
   Exclude<keyof Types, OmittedKeys>,
-  keyof Types[Exclude<keyof Types, OmittedKeys>],
-  Omit<Types, OmittedKeys>
+  AllVariations<Omit<Types, OmittedKeys>>,
+  Omit<Types, OmittedKeys>,
+  Brand,
+  Keys
 > {
-  const filteredTypes = Object.keys(union.types).reduce((localTypes, key) => {
-    if (omittedKeys.indexOf(key as OmittedKeys) > -1) {
-      return localTypes;
-    }
+  const filteredTypes = {} as { [key: string]: unknown };
 
-    return {
-      ...localTypes,
-      [key]: union.types[key as keyof Types],
-    };
-  }, {}) as Omit<Types, OmittedKeys>;
+  Object.keys(union.types).forEach((key) => {
+    if (omittedKeys.indexOf(key as OmittedKeys) === -1) {
+      filteredTypes[key] = union.types[key as keyof Types];
+    }
+  });
 
-  return ofVariations(filteredTypes);
+  return create(
+    filteredTypes as Omit<Types, OmittedKeys>,
+    union.options,
+    pickBrands(
+      union.brands,
+      Object.keys(filteredTypes) as Exclude<keyof Types, OmittedKeys>[],
+    ),
+  );
 }
 
 /**
@@ -1171,22 +1688,31 @@ export function pick<
     };
   },
   OnlyKeys extends keyof Types,
+  Brand = unknown,
+  Keys extends TagKeys = DefaultTagKeys,
 >(
-  union: UnionAPIDef<keyof Types, keyof Types[keyof Types], Types>,
+  union: UnionAPIDef<keyof Types, AllVariations<Types>, Types, Brand, Keys>,
   onlyKeys: OnlyKeys[],
-): UnionAPIDef<OnlyKeys, keyof Types[OnlyKeys], Pick<Types, OnlyKeys>> {
-  const filteredTypes = Object.keys(union.types).reduce((localTypes, key) => {
-    if (onlyKeys.indexOf(key as OnlyKeys) === -1) {
-      return localTypes;
-    }
+): UnionAPIDef<
+  OnlyKeys,
+  AllVariations<Pick<Types, OnlyKeys>>,
+  Pick<Types, OnlyKeys>,
+  Brand,
+  Keys
+> {
+  const filteredTypes = {} as { [key: string]: unknown };
 
-    return {
-      ...localTypes,
-      [key]: union.types[key as OnlyKeys],
-    };
-  }, {}) as Pick<Types, OnlyKeys>;
+  Object.keys(union.types).forEach((key) => {
+    if (onlyKeys.indexOf(key as OnlyKeys) > -1) {
+      filteredTypes[key] = union.types[key as OnlyKeys];
+    }
+  });
 
-  return ofVariations(filteredTypes);
+  return create(
+    filteredTypes as Pick<Types, OnlyKeys>,
+    union.options,
+    pickBrands(union.brands, Object.keys(filteredTypes) as OnlyKeys[]),
+  );
 }
 
 /**
@@ -1223,20 +1749,41 @@ export function merge<
       [key: string]: any;
     };
   },
+  Brand1 = unknown,
+  Brand2 = unknown,
+  Keys extends TagKeys = DefaultTagKeys,
 >(
-  union1: UnionAPIDef<keyof Types1, keyof Types1[keyof Types1], Types1>,
-  union2: UnionAPIDef<keyof Types2, keyof Types2[keyof Types2], Types2>,
+  union1: UnionAPIDef<
+    keyof Types1,
+    AllVariations<Types1>,
+    Types1,
+    Brand1,
+    Keys
+  >,
+  union2: UnionAPIDef<
+    keyof Types2,
+    AllVariations<Types2>,
+    Types2,
+    Brand2,
+    Keys
+  >,
 ): UnionAPIDef<
   keyof Types1 | keyof Types2,
-  keyof (Types1 & Types2)[keyof Types1 | keyof Types2],
-  Types1 & Types2
+  AllVariations<Types1 & Types2>,
+  Types1 & Types2,
+  Brand1 | Brand2,
+  Keys
 > {
   const types = {
     ...union1.types,
     ...union2.types,
   };
 
-  return ofVariations(types);
+  return create(
+    types,
+    { ...union1.options, ...union2.options },
+    { ...union1.brands, ...union2.brands },
+  );
 }
 
 /**
@@ -1259,36 +1806,38 @@ export function omitVariations<
       [key: string]: any;
     };
   },
-  OmittedVariations extends keyof Types[keyof Types],
+  OmittedVariations extends AllVariations<Types>,
+  Brand = unknown,
+  Keys extends TagKeys = DefaultTagKeys,
 >(
-  union: UnionAPIDef<keyof Types, keyof Types[keyof Types], Types>,
+  union: UnionAPIDef<keyof Types, AllVariations<Types>, Types, Brand, Keys>,
   omittedVariations: OmittedVariations[],
 ) {
   type Names = keyof Types;
-  type Variations = keyof Types[keyof Types];
+  type Variations = AllVariations<Types>;
 
   const names = Object.keys(union.types) as Names[];
-  const variations = Object.keys(union.types[names[0]]) as Variations[];
 
-  const filteredTypes = names.reduce((localTypes, name) => {
+  const filteredTypes = {} as {
+    [name in Names]: Omit<Types[name], OmittedVariations>;
+  };
+
+  names.forEach((name) => {
     const localType = union.types[name];
+    const filteredType = {} as { [variation: string]: unknown };
 
-    const filteredType = variations.reduce((localVariations, variation) => {
-      if (omittedVariations.indexOf(variation as OmittedVariations) > -1) {
-        return localVariations;
+    (Object.keys(localType) as Variations[]).forEach((variation) => {
+      if (omittedVariations.indexOf(variation as OmittedVariations) === -1) {
+        filteredType[variation as string] = localType[variation];
       }
+    });
 
-      return {
-        ...localVariations,
-        [variation]: localType[variation as Variations],
-      };
-    }, {});
-
-    return {
-      ...localTypes,
-      [name]: filteredType,
-    };
-  }, {}) as { [name in Names]: Omit<Types[name], OmittedVariations> };
+    filteredTypes[name] = filteredType as Omit<Types[Names], OmittedVariations>;
+  });
 
-  return ofVariations(filteredTypes);
+  return create<typeof filteredTypes, Brand, Keys>(
+    filteredTypes,
+    union.options,
+    union.brands,
+  );
 }
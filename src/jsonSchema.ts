@@ -0,0 +1,46 @@
+import { definitionOf } from './definition';
+
+/**
+ * A [JSON Schema](https://json-schema.org), as given to
+ * {@link TypeOptions.schema} and returned by `toJSONSchema`
+ */
+export type JSONSchema = boolean | { readonly [keyword: string]: unknown };
+
+/**
+ * Create the function describing the JSON representation of the members of a
+ * union, see {@link Encoded}
+ *
+ * @remarks
+ * There is one schema per name and variation in a `oneOf`, in the order of the
+ * declaration of the union. Payloads of members declared without schema are
+ * not checked.
+ *
+ * @internal
+ */
+export function createToJSONSchema(types: {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [name: string]: { [variation: string]: any };
+}) {
+  return (): JSONSchema => {
+    const oneOf: JSONSchema[] = [];
+
+    Object.keys(types).forEach((name) => {
+      Object.keys(types[name]).forEach((variation) => {
+        const { schema = {} } = definitionOf(types[name][variation]);
+
+        oneOf.push({
+          type: 'object',
+          properties: {
+            name: { const: name },
+            variation: { const: variation },
+            payload: schema,
+          },
+          required: ['name', 'variation', 'payload'],
+          additionalProperties: false,
+        });
+      });
+    });
+
+    return { oneOf };
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Define a property computed on first access only. The computed value then
+ * replaces the getter, so it is computed once.
+ *
+ * @remarks
+ * Used for the optics and folds of each member, which most apps never use for
+ * most members.
+ *
+ * @internal
+ */
+export function defineLazy(
+  object: object,
+  key: PropertyKey,
+  create: () => unknown,
+) {
+  Object.defineProperty(object, key, {
+    configurable: true,
+    enumerable: true,
+    get() {
+      const value = create();
+
+      Object.defineProperty(object, key, {
+        configurable: true,
+        enumerable: true,
+        writable: true,
+        value,
+      });
+
+      return value;
+    },
+  });
+}
+
+/**
+ * Apply `extend` to the value of a property: now, or on first access if the
+ * property is lazy
+ *
+ * @internal
+ */
+export function extendLazy<T>(
+  object: object,
+  key: PropertyKey,
+  extend: (value: T) => void,
+) {
+  const descriptor = Object.getOwnPropertyDescriptor(object, key);
+
+  if (descriptor?.get === undefined) {
+    extend((object as { [key: string]: T })[key as string]);
+
+    return;
+  }
+
+  const { get } = descriptor;
+
+  defineLazy(object, key, () => {
+    const value = get.call(object) as T;
+
+    extend(value);
+
+    return value;
+  });
+}
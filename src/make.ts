@@ -0,0 +1,203 @@
+import { Either, left, right } from 'fp-ts/Either';
+
+import { definitionOf, validatePayload, ValidationError } from './definition';
+import type { Opaque } from './index';
+import type { NamesOf, VariationsOf } from './members';
+
+type PossibleNames = string | number | symbol;
+type PossibleVariations = string | number | symbol;
+
+/**
+ * Result of a smart constructor
+ *
+ * @internal
+ */
+type Made<Name, Variation, Brand> = Either<
+  ReadonlyArray<ValidationError>,
+  Opaque<Name, Variation, Brand>
+>;
+
+/*
+ * @internal
+ */
+type MakeAll<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
+> = <
+  Name extends Names,
+  Variation extends VariationsOf<Types, Name, Variations>,
+>(
+  name: Name,
+  variation: Variation,
+  raw: unknown,
+) => Made<Name, Variation, Brand>;
+
+/*
+ * @internal
+ */
+type MakeTypes<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
+> = {
+  [name in Names]: (VariationsOf<Types, name, Variations> extends 'default'
+    ? (raw: unknown) => Made<name, 'default', Brand>
+    : <Variation extends VariationsOf<Types, name, Variations>>(
+        variation: Variation,
+        raw: unknown,
+      ) => Made<name, Variation, Brand>) &
+    {
+      [variation in VariationsOf<Types, name, Variations>]: (
+        raw: unknown,
+      ) => Made<name, variation, Brand>;
+    };
+};
+
+/*
+ * @internal
+ */
+type MakeVariations<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
+> = {
+  [variation in Variations]: (<Name extends NamesOf<Types, Names, variation>>(
+    name: Name,
+    raw: unknown,
+  ) => Made<Name, variation, Brand>) &
+    {
+      [name in NamesOf<Types, Names, variation>]: (
+        raw: unknown,
+      ) => Made<name, variation, Brand>;
+    };
+};
+
+/**
+ * Smart constructors: like `of`, but the payloads are unknown values checked
+ * with the validators given to {@link "type" | `type`}. They return an fp-ts
+ * `Either` instead of throwing.
+ *
+ * @remarks
+ * The errors of io-ts decoders are all kept, each one with the path to the
+ * invalid property. Decoders can also fail with an array of
+ * `ValidationError`.
+ *
+ * @example
+```typescript
+  MessageAPI.make('Text', 'Sent', raw);
+  MessageAPI.make.Text('Sent', raw);
+  MessageAPI.make.Text.Sent(raw);
+  MessageAPI.make.Sent('Text', raw);
+  MessageAPI.make.Sent.Text(raw);
+  // Either<ValidationError[], Opaque<'Text', 'Sent'>>
+```
+ *
+ * @typeParam Names - The names of the union
+ * @typeParam Variations - The variations of the union
+ * @typeParam Types - Collection of private types of the union
+ * @typeParam Brand - The brand of the union
+ */
+export type Make<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
+> = MakeAll<Names, Variations, Types, Brand> &
+  MakeTypes<Names, Variations, Types, Brand> &
+  MakeVariations<Names, Variations, Types, Brand>;
+
+/**
+ * Create the smart constructors of a union
+ *
+ * @internal
+ */
+export function createMake<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  Types extends { [name in Names]: { [variation: string]: any } },
+  Brand,
+>(
+  types: Types,
+  of: (
+    name: Names,
+    variation: Variations,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    value: any,
+  ) => Opaque<Names, Variations, Brand>,
+): Make<Names, Variations, Types, Brand> {
+  const names = Object.keys(types) as Names[];
+
+  const variationsOf = (name: Names) =>
+    Object.keys(types[name]) as Variations[];
+
+  const make = (name: Names, variation: Variations, raw: unknown) => {
+    const typesForName = types[name];
+
+    if (
+      typesForName === undefined ||
+      !Object.prototype.hasOwnProperty.call(typesForName, variation)
+    ) {
+      return left([
+        {
+          path: [],
+          message: `Unknown member "${String(name)}" with variation "${String(
+            variation,
+          )}"`,
+        },
+      ]);
+    }
+
+    const errors = validatePayload(
+      definitionOf(typesForName[variation as string]),
+      raw,
+      [],
+    );
+
+    return errors.length > 0 ? left(errors) : right(of(name, variation, raw));
+  };
+
+  const makeAll = (name: Names, variation: Variations, raw: unknown) =>
+    make(name, variation, raw);
+
+  names.forEach((name) => {
+    const makeType = function (variation: unknown, raw: unknown) {
+      return arguments.length <= 1
+        ? make(name, 'default' as Variations, variation)
+        : make(name, variation as Variations, raw);
+    };
+
+    variationsOf(name).forEach((variation) => {
+      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // @ts-ignore
+      makeType[variation] = (raw: unknown) => make(name, variation, raw);
+    });
+
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore
+    makeAll[name] = makeType;
+  });
+
+  names.forEach((name) => {
+    variationsOf(name).forEach((variation) => {
+      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // @ts-ignore
+      if (makeAll[variation] === undefined) {
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        makeAll[variation] = (otherName: Names, raw: unknown) =>
+          make(otherName, variation, raw);
+      }
+
+      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // @ts-ignore
+      makeAll[variation][name] = (raw: unknown) => make(name, variation, raw);
+    });
+  });
+
+  return makeAll as unknown as Make<Names, Variations, Types, Brand>;
+}
@@ -0,0 +1,209 @@
+import { ForeignOpaqueError, UnionError } from './errors';
+import { showValue } from './show';
+import type { Opaque, UnionAPIDef } from './index';
+import type { DefaultTagKeys, TagKeys } from './tagged';
+import type { AllVariations, Members } from './members';
+
+/**
+ * Members of the source union mapped as is to the target union: the target
+ * has a member with the same name, having all its variations with compatible
+ * payloads
+ *
+ * @internal
+ */
+type IdentityNames<SourceTypes, TargetTypes> = {
+  [name in keyof SourceTypes]: name extends keyof TargetTypes
+    ? SourceTypes[name] extends {
+        [variation in keyof SourceTypes[name]]: variation extends keyof TargetTypes[name]
+          ? TargetTypes[name][variation]
+          : never;
+      }
+      ? name
+      : never
+    : never;
+}[keyof SourceTypes];
+
+/**
+ * Function mapping the opaques of a member of the source union to the target
+ * union
+ *
+ * @internal
+ */
+type MapHandler<SourceTypes, SourceBrand, TargetTypes, TargetBrand, Name> = (
+  opaque: Members<
+    Name & keyof SourceTypes,
+    AllVariations<SourceTypes>,
+    SourceTypes,
+    SourceBrand
+  >,
+) => Members<
+  keyof TargetTypes,
+  AllVariations<TargetTypes>,
+  TargetTypes,
+  TargetBrand
+>;
+
+/**
+ * Total function from the opaques of the source union to the opaques of the
+ * target union
+ *
+ * @internal
+ */
+type Mapping<SourceTypes, SourceBrand, TargetTypes, TargetBrand> = (
+  opaque: Members<
+    keyof SourceTypes,
+    AllVariations<SourceTypes>,
+    SourceTypes,
+    SourceBrand
+  >,
+) => Members<
+  keyof TargetTypes,
+  AllVariations<TargetTypes>,
+  TargetTypes,
+  TargetBrand
+>;
+
+/**
+ * Handlers of `mapTo`, by name of the source union. Handlers of the members
+ * that can be mapped as is are optional.
+ *
+ * @typeParam SourceTypes - Private types of the source union
+ * @typeParam SourceBrand - Brand of the source union
+ * @typeParam TargetTypes - Private types of the target union
+ * @typeParam TargetBrand - Brand of the target union
+ */
+export type MapHandlers<SourceTypes, SourceBrand, TargetTypes, TargetBrand> = {
+  [name in Exclude<
+    keyof SourceTypes,
+    IdentityNames<SourceTypes, TargetTypes>
+  >]: MapHandler<SourceTypes, SourceBrand, TargetTypes, TargetBrand, name>;
+} &
+  {
+    [name in IdentityNames<SourceTypes, TargetTypes>]?: MapHandler<
+      SourceTypes,
+      SourceBrand,
+      TargetTypes,
+      TargetBrand,
+      name
+    >;
+  };
+
+/**
+ * Create a total function mapping the opaques of a union to the opaques of
+ * another union.
+ *
+ * @remarks
+ * Members of the source union without handler are mapped as is: they keep
+ * their name, their variation and their payload. This is only possible when
+ * the target union has a member with the same name, all its variations and
+ * compatible payloads; otherwise a handler is required.
+ *
+ * @example
+```typescript
+const MessageV2API = Union.ofVariations({
+  Text: {
+    Sent: Union.type<$Text>(),
+  },
+  Image: {
+    Sent: Union.type<$ImageV2>(),
+  },
+});
+
+// toV2 :: (message: MessageV1) => MessageV2
+const toV2 = Union.mapTo(MessageV1API, MessageV2API, {
+  Image: (image) =>
+    MessageV2API.of.Image.Sent({
+      ...MessageV1API.Image.Sent.iso.get(image),
+      alt: '',
+    }),
+});
+```
+ *
+ * @typeParam SourceTypes - Private types of the source union
+ * @typeParam TargetTypes - Private types of the target union
+ *
+ * @returns The mapping function
+ */
+export function mapTo<
+  SourceTypes extends {
+    [key in keyof SourceTypes]: {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      [key: string]: any;
+    };
+  },
+  TargetTypes extends {
+    [key in keyof TargetTypes]: {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      [key: string]: any;
+    };
+  },
+  SourceBrand = unknown,
+  TargetBrand = unknown,
+  SourceKeys extends TagKeys = DefaultTagKeys,
+  TargetKeys extends TagKeys = DefaultTagKeys,
+>(
+  source: UnionAPIDef<
+    keyof SourceTypes,
+    AllVariations<SourceTypes>,
+    SourceTypes,
+    SourceBrand,
+    SourceKeys
+  >,
+  target: UnionAPIDef<
+    keyof TargetTypes,
+    AllVariations<TargetTypes>,
+    TargetTypes,
+    TargetBrand,
+    TargetKeys
+  >,
+  // wrapped to infer the types from the unions only, not from the handlers
+  handlers: [
+    MapHandlers<SourceTypes, SourceBrand, TargetTypes, TargetBrand>,
+  ][SourceTypes extends unknown ? 0 : never],
+): Mapping<SourceTypes, SourceBrand, TargetTypes, TargetBrand> {
+  const sourceTypes = source.types as { [name: string]: object };
+  const targetTypes = target.types as { [name: string]: object };
+  const funcs = handlers as {
+    [name: string]: ((opaque: unknown) => unknown) | undefined;
+  };
+
+  // the types only allow missing handlers for compatible members, check the
+  // names and variations for untyped callers
+  Object.keys(sourceTypes)
+    .filter((name) => funcs[name] === undefined)
+    .forEach((name) => {
+      const hasAllVariations =
+        targetTypes[name] !== undefined &&
+        Object.keys(sourceTypes[name]).every((variation) =>
+          Object.prototype.hasOwnProperty.call(targetTypes[name], variation),
+        );
+
+      if (!hasAllVariations) {
+        throw new UnionError(`No handler found to map member "${name}"`);
+      }
+    });
+
+  const of = target.of as unknown as (
+    name: string,
+    variation: string,
+    value: unknown,
+  ) => unknown;
+
+  return ((opaque: Opaque<string, string>) => {
+    /* eslint-disable no-underscore-dangle */
+    if (!source.is(opaque)) {
+      throw new ForeignOpaqueError(
+        String(opaque?.__OPAQUE_KEY__),
+        String(opaque?.__OPAQUE_VARIATION__),
+        showValue(opaque),
+      );
+    }
+
+    const func = funcs[opaque.__OPAQUE_KEY__];
+
+    return func === undefined
+      ? of(opaque.__OPAQUE_KEY__, opaque.__OPAQUE_VARIATION__, opaque.value)
+      : func(opaque);
+    /* eslint-enable no-underscore-dangle */
+  }) as unknown as Mapping<SourceTypes, SourceBrand, TargetTypes, TargetBrand>;
+}
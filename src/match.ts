@@ -0,0 +1,63 @@
+/**
+ * All the handlers `match` can take. `_` takes the members without handler.
+ *
+ * @internal
+ */
+type Handlers<Types, R, Keys> = {
+  [key in keyof Types]: (s: Types[key]) => R;
+} & {
+  _: (s: Types[Exclude<keyof Types, Keys>]) => R;
+};
+
+/**
+ * Partial fold: like `fold` but only some handlers are given, the other
+ * members are handled by the required `_` fallback.
+ *
+ * @example
+```typescript
+  import * as Union from '@iadvize-oss/opaque-union';
+
+  const MessageAPI = Union.of({
+    Text: Union.type<$Text>(),
+    Image: Union.type<$Image>(),
+    Video: Union.type<$Video>(),
+  });
+
+  type Text = ReturnType<typeof MessageAPI.of.Text>;
+
+  MessageAPI.match({
+    Text: (message: Text) => 'text',
+    _: (message: Image | Video) => 'media',
+  })
+```
+ */
+export type Match<Types> = <R, Keys extends keyof Types | '_'>(
+  funcs: { [key in Keys | '_']: Handlers<Types, R, Keys>[key] },
+) => (s: Types[keyof Types]) => R;
+
+/**
+ * Create a `match` function from the guards of each member
+ *
+ * @internal
+ */
+export function createMatchObject<Types>(guards: {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [key: string]: (thing: any) => boolean;
+}): Match<Types> {
+  const keys = Object.keys(guards);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return ((funcs: { [key: string]: (s: any) => unknown }) =>
+    (s: Types[keyof Types]) => {
+      const key = keys.find(
+        (localKey) => funcs[localKey] !== undefined && guards[localKey](s),
+      );
+
+      if (key === undefined) {
+        // eslint-disable-next-line no-underscore-dangle
+        return funcs._(s);
+      }
+
+      return funcs[key](s);
+    }) as Match<Types>;
+}
@@ -0,0 +1,71 @@
+import type { Opaque } from './index';
+
+type PossibleNames = string | number | symbol;
+
+/**
+ * Variations of any member of the private types
+ *
+ * @internal
+ */
+export type AllVariations<Types> = {
+  [name in keyof Types]: keyof Types[name];
+}[keyof Types];
+
+/**
+ * Variations of the member `Name`, among `Variations`
+ *
+ * @internal
+ */
+export type VariationsOf<Types, Name, Variations> = Name extends keyof Types
+  ? Extract<Variations, keyof Types[Name]>
+  : never;
+
+/**
+ * Members having the variation `Variation`, among `Names`
+ *
+ * @internal
+ */
+export type NamesOf<Types, Names, Variation> = Names extends keyof Types
+  ? Variation extends keyof Types[Names]
+    ? Names
+    : never
+  : never;
+
+/**
+ * Private types of the members `Names` with the variations `Variations`
+ *
+ * @internal
+ */
+export type PayloadOf<Types, Names, Variations> = Names extends keyof Types
+  ? Variations extends keyof Types[Names]
+    ? Types[Names][Variations]
+    : never
+  : never;
+
+/**
+ * Opaques of the members `Names` with the variations `Variations`. Unlike
+ * `Opaques`, only the variations of each member are kept.
+ *
+ * @example
+```typescript
+type Types = {
+  Text: { Sent: $Text; Pending: $Text };
+  Video: { Uploading: $Video; Ready: $Video };
+};
+
+type Message = Members<keyof Types, AllVariations<Types>, Types, unknown>;
+// Opaque<'Text', 'Sent'> | Opaque<'Text', 'Pending'>
+//   | Opaque<'Video', 'Uploading'> | Opaque<'Video', 'Ready'>
+```
+ *
+ * @internal
+ */
+export type Members<Names extends PossibleNames, Variations, Types, Brand> = {
+  [name in Names]: {
+    [variation in VariationsOf<Types, name, Variations>]: Opaque<
+      name,
+      variation,
+      Brand
+    >;
+  }[VariationsOf<Types, name, Variations>];
+}[Names];
@@ -0,0 +1,217 @@
+import { checkMember, isProduction } from './checks';
+import { definitionOf, isValidPayload } from './definition';
+import { ForeignOpaqueError, InvalidPayloadError } from './errors';
+import type { Opaque, UnionOptions } from './index';
+import type { Members, PayloadOf } from './members';
+import { createShow, showValue } from './show';
+
+type PossibleNames = string | number | symbol;
+type PossibleVariations = string | number | symbol;
+
+/**
+ * The brand of a union created with the given namespace
+ *
+ * @internal
+ */
+export type BrandOf<Namespace> = [Namespace] extends [never]
+  ? unknown
+  : Namespace;
+
+/**
+ * Private types of a union created with {@link of | `of`}: each type is the
+ * "default" variation of its member
+ *
+ * @internal
+ */
+export function defaultVariations<Types>(types: Types) {
+  const realTypes = {} as { [name in keyof Types]: { default: Types[name] } };
+
+  Object.keys(types).forEach((name) => {
+    realTypes[name as keyof Types] = { default: types[name as keyof Types] };
+  });
+
+  return realTypes;
+}
+
+/**
+ * The number of unions created without a namespace, to give each of them its
+ * own brand
+ */
+let anonymousUnions = 0;
+
+/**
+ * The brand of each member of a new union: the namespace if any, a unique
+ * string otherwise. Brands are strings so that opaques stay plain data, that
+ * `structuredClone` or a JSON round trip keep.
+ *
+ * @internal
+ */
+export function brandsOf<Names extends PossibleNames>(
+  types: { [name in Names]: unknown },
+  namespace?: string,
+) {
+  const brand = namespace ?? `opaque-union:${(anonymousUnions += 1)}`;
+
+  const brands = {} as { [name in Names]: string };
+
+  Object.keys(types).forEach((name) => {
+    brands[name as Names] = brand;
+  });
+
+  return brands;
+}
+
+/**
+ * Create the functions creating, checking and unwrapping the opaques of a
+ * union, shared by the union api and the standalone functions
+ *
+ * @internal
+ */
+export function createOpaques<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  Types extends { [name in Names]: { [variation: string]: any } },
+  Brand,
+>(types: Types, options: UnionOptions, brands: { [name in Names]: string }) {
+  const { show, showInvalid, prototype } =
+    createShow<Members<Names, Variations, Types, Brand>>(types);
+
+  /**
+   * Check the opaque markers and the brand of the member
+   */
+  const isOpaque = (
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    thing: any,
+  ): thing is Opaque<Names, Variations, Brand> =>
+    typeof thing === 'object' &&
+    thing !== null &&
+    // eslint-disable-next-line no-underscore-dangle
+    thing.__OPAQUE__ === '__OPAQUE__' &&
+    '__OPAQUE_KEY__' in thing &&
+    '__OPAQUE_VARIATION__' in thing &&
+    // eslint-disable-next-line no-underscore-dangle
+    thing.__OPAQUE_BRAND__ === brands[thing.__OPAQUE_KEY__ as Names];
+
+  /**
+   * Check that an opaque of this union is of a name and a variation it
+   * declares, unions derived with `omitVariations` keeping the brands
+   */
+  const isDeclared = (
+    thing: unknown,
+  ): thing is Opaque<Names, Variations, Brand> =>
+    isOpaque(thing) &&
+    // eslint-disable-next-line no-underscore-dangle
+    types[thing.__OPAQUE_KEY__] !== undefined &&
+    Object.prototype.hasOwnProperty.call(
+      // eslint-disable-next-line no-underscore-dangle
+      types[thing.__OPAQUE_KEY__],
+      // eslint-disable-next-line no-underscore-dangle
+      thing.__OPAQUE_VARIATION__,
+    );
+
+  /**
+   * Throw a {@link ForeignOpaqueError} on anything but the members of this
+   * union
+   */
+  const assertDeclared = (
+    opaque: Opaque<PossibleNames, PossibleVariations, unknown>,
+  ) => {
+    if (!isDeclared(opaque)) {
+      throw new ForeignOpaqueError(
+        // eslint-disable-next-line no-underscore-dangle
+        String(opaque.__OPAQUE_KEY__),
+        // eslint-disable-next-line no-underscore-dangle
+        String(opaque.__OPAQUE_VARIATION__),
+        showValue(opaque),
+      );
+    }
+  };
+
+  const unwrap = (opaque: Opaque<Names, Variations, Brand>) => {
+    if (!isOpaque(opaque as unknown)) {
+      throw new ForeignOpaqueError(
+        // eslint-disable-next-line no-underscore-dangle
+        String(opaque.__OPAQUE_KEY__),
+        // eslint-disable-next-line no-underscore-dangle
+        String(opaque.__OPAQUE_VARIATION__),
+        showValue(opaque),
+      );
+    }
+
+    return opaque.value as PayloadOf<Types, Names, Variations>;
+  };
+
+  const hasValidPayload = (opaque: Opaque<Names, Variations, Brand>) => {
+    // eslint-disable-next-line no-underscore-dangle
+    const typesForName = types[opaque.__OPAQUE_KEY__];
+
+    if (
+      typesForName === undefined ||
+      !Object.prototype.hasOwnProperty.call(
+        typesForName,
+        // eslint-disable-next-line no-underscore-dangle
+        opaque.__OPAQUE_VARIATION__,
+      )
+    ) {
+      return false;
+    }
+
+    return isValidPayload(
+      // eslint-disable-next-line no-underscore-dangle
+      definitionOf(typesForName[opaque.__OPAQUE_VARIATION__ as string]),
+      opaque.value,
+    );
+  };
+
+  /**
+   * The type guard shared by the whole union, each name, each variation and
+   * each member: an opaque of this union, of the given name and variation if
+   * any, with a valid payload
+   */
+  const guard = (thing: unknown, name?: Names, variation?: Variations) =>
+    isOpaque(thing) &&
+    // eslint-disable-next-line no-underscore-dangle
+    (name === undefined || thing.__OPAQUE_KEY__ === name) &&
+    // eslint-disable-next-line no-underscore-dangle
+    (variation === undefined || thing.__OPAQUE_VARIATION__ === variation) &&
+    hasValidPayload(thing);
+
+  const checks = options.checks ?? !isProduction();
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const build = (name: Names, variation: Variations, value: any) => {
+    if (checks) {
+      checkMember(types, name, variation);
+    }
+
+    const opaque = Object.assign(Object.create(prototype), {
+      __OPAQUE__: '__OPAQUE__',
+      __OPAQUE_KEY__: name,
+      __OPAQUE_VARIATION__: variation,
+      __OPAQUE_BRAND__: brands[name] as unknown as Brand,
+      value,
+    }) as Opaque<Names, Variations, Brand>;
+
+    if (options.strict && !hasValidPayload(opaque)) {
+      throw new InvalidPayloadError(
+        String(name),
+        String(variation),
+        value,
+        showInvalid(String(name), String(variation), value),
+      );
+    }
+
+    return opaque;
+  };
+
+  return {
+    show,
+    isOpaque,
+    isDeclared,
+    assertDeclared,
+    guard,
+    unwrap,
+    build,
+  };
+}
@@ -0,0 +1,120 @@
+import type { Ord } from 'fp-ts/Ord';
+import type { Ordering } from 'fp-ts/Ordering';
+
+import { definitionOf } from './definition';
+import type { Opaque } from './index';
+
+/**
+ * Ordering of the members of a union: by name in the declaration order of the
+ * private types, then by variation in the declaration order of the member,
+ * then by payload with the `ord` given to {@link "type" | `type`}, if any.
+ *
+ * @remarks
+ * `pick`, `omit` and `omitVariations` keep the declaration order of the
+ * original union. `merge` puts the members of the first union before the
+ * members of the second one.
+ *
+ * Opaques out of the union throw a {@link ForeignOpaqueError}.
+ *
+ * @example
+```typescript
+  const MessageAPI = Union.ofVariations({
+    Text: {
+      Pending: Union.type<$Text>({ ord: byDate }),
+      Sent: Union.type<$Text>({ ord: byDate }),
+    },
+    Image: {
+      Pending: Union.type<$Image>(),
+      Sent: Union.type<$Image>(),
+    },
+  });
+
+  // pending texts by date, sent texts by date, pending images, sent images
+  MessageAPI.sort(messages);
+```
+ *
+ * @typeParam Opaques - The opaques of the union
+ */
+export type Sorting<Opaques> = {
+  /**
+   * [fp-ts](https://github.com/gcanti/fp-ts) `Ord` instance of the union
+   */
+  ord: Ord<Opaques>;
+
+  /**
+   * Get a sorted copy of a list of opaques. The sort is stable.
+   */
+  sort: <O extends Opaques>(list: ReadonlyArray<O>) => O[];
+};
+
+function compareIndexes(a: number, b: number): Ordering {
+  if (a < b) {
+    return -1;
+  }
+
+  return a > b ? 1 : 0;
+}
+
+/**
+ * Create the ordering functions of a union
+ *
+ * @internal
+ */
+export function createSorting<Opaques>(
+  types: {
+    [name: string]: { [variation: string]: unknown };
+  },
+  assertDeclared: (opaque: Opaque<string, string>) => void,
+): Sorting<Opaques> {
+  const names = Object.keys(types);
+
+  const compare = (a: Opaque<string, string>, b: Opaque<string, string>) => {
+    assertDeclared(a);
+    assertDeclared(b);
+
+    /* eslint-disable no-underscore-dangle */
+    const byName = compareIndexes(
+      names.indexOf(a.__OPAQUE_KEY__),
+      names.indexOf(b.__OPAQUE_KEY__),
+    );
+
+    if (byName !== 0) {
+      return byName;
+    }
+
+    const variations = Object.keys(types[a.__OPAQUE_KEY__]);
+
+    const byVariation = compareIndexes(
+      variations.indexOf(a.__OPAQUE_VARIATION__),
+      variations.indexOf(b.__OPAQUE_VARIATION__),
+    );
+
+    if (byVariation !== 0) {
+      return byVariation;
+    }
+
+    const { ord } = definitionOf(
+      types[a.__OPAQUE_KEY__][a.__OPAQUE_VARIATION__],
+    );
+    /* eslint-enable no-underscore-dangle */
+
+    return ord === undefined ? 0 : ord.compare(a.value, b.value);
+  };
+
+  const sort = (list: ReadonlyArray<Opaque<string, string>>) =>
+    list
+      .map((opaque, index) => ({ opaque, index }))
+      .sort(
+        (a, b) =>
+          compare(a.opaque, b.opaque) || compareIndexes(a.index, b.index),
+      )
+      .map(({ opaque }) => opaque);
+
+  return {
+    ord: {
+      equals: (a, b) => compare(a, b) === 0,
+      compare,
+    },
+    sort,
+  } as Sorting<Opaque<string, string>> as unknown as Sorting<Opaques>;
+}
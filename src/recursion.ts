@@ -0,0 +1,250 @@
+import { ForeignOpaqueError, UnionError } from './errors';
+import { showValue } from './show';
+import type { Opaque } from './index';
+import type { Members, PayloadOf, VariationsOf } from './members';
+
+type PossibleNames = string | number | symbol;
+type PossibleVariations = string | number | symbol;
+
+/**
+ * `T` where the opaques `Self` are replaced by `R`, in arrays and objects
+ *
+ * @internal
+ */
+export type Children<T, Self, R> = T extends Self
+  ? R
+  : // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  T extends Date | ((...args: any[]) => unknown)
+  ? T
+  : T extends object
+  ? { [key in keyof T]: Children<T[key], Self, R> }
+  : T;
+
+/**
+ * Handlers of `cata` and `para`, by name. Each handler takes the payload of
+ * the opaque with its children replaced by `Child`, and its variation.
+ *
+ * @internal
+ */
+type Algebra<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+  Brand,
+  Child,
+  R,
+> = {
+  [name in Names]: (
+    payload: Children<
+      PayloadOf<Types, name, VariationsOf<Types, name, Variations>>,
+      Members<Names, Variations, Types, Brand>,
+      Child
+    >,
+    variation: VariationsOf<Types, name, Variations>,
+  ) => R;
+};
+
+/**
+ * Bottom-up folds of recursive unions, whose payloads hold opaques of the
+ * union itself. The opaques are found in the payloads, in arrays and plain
+ * objects.
+ *
+ * @remarks
+ * The trees are traversed iteratively: deep trees don't overflow the stack.
+ * Opaques held several times in a tree are only folded once.
+ *
+ * @example
+```typescript
+  type Expr =
+    | Union.Opaque<'Num', 'default'>
+    | Union.Opaque<'Add', 'default'>;
+
+  const ExprAPI = Union.of({
+    Num: Union.type<number>(),
+    Add: Union.type<{ left: Expr; right: Expr }>(),
+  });
+
+  // evaluate :: (expr: Expr) => number
+  const evaluate = ExprAPI.cata<number>({
+    Num: (value) => value,
+    Add: ({ left, right }) => left + right,
+  });
+```
+ *
+ * @typeParam Names - The names of the union
+ * @typeParam Variations - The variations of the union
+ * @typeParam Types - The private types of the union
+ * @typeParam Brand - The brand of the union
+ */
+export type Recursion<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+  Brand = unknown,
+> = {
+  /**
+   * Catamorphism: the handlers get the results of the children
+   */
+  cata: <R>(
+    algebra: Algebra<Names, Variations, Types, Brand, R, R>,
+  ) => (opaque: Members<Names, Variations, Types, Brand>) => R;
+
+  /**
+   * Paramorphism: the handlers get the children along with their results
+   */
+  para: <R>(
+    algebra: Algebra<
+      Names,
+      Variations,
+      Types,
+      Brand,
+      { opaque: Members<Names, Variations, Types, Brand>; result: R },
+      R
+    >,
+  ) => (opaque: Members<Names, Variations, Types, Brand>) => R;
+};
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Create the bottom-up folds of a union
+ *
+ * @internal
+ */
+export function createRecursion<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+  Brand,
+>(
+  isOpaque: (thing: unknown) => thing is Opaque<Names, Variations, Brand>,
+): Recursion<Names, Variations, Types, Brand> {
+  type Self = Opaque<Names, Variations, Brand>;
+
+  /**
+   * Find the children of a payload. Payloads are only as deep as their
+   * types: the recursion is safe here.
+   */
+  const childrenOf = (value: unknown): Self[] => {
+    if (isOpaque(value)) {
+      return [value];
+    }
+
+    if (Array.isArray(value)) {
+      return value.flatMap(childrenOf);
+    }
+
+    if (isPlainObject(value)) {
+      return Object.keys(value).flatMap((key) => childrenOf(value[key]));
+    }
+
+    return [];
+  };
+
+  const replaceChildren = (
+    value: unknown,
+    replace: (child: Self) => unknown,
+  ): unknown => {
+    if (isOpaque(value)) {
+      return replace(value);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => replaceChildren(item, replace));
+    }
+
+    if (isPlainObject(value)) {
+      return Object.keys(value).reduce(
+        (localValue, key) => ({
+          ...localValue,
+          [key]: replaceChildren(value[key], replace),
+        }),
+        {},
+      );
+    }
+
+    return value;
+  };
+
+  /**
+   * Fold the tree in post order with an explicit stack, each child being
+   * replaced by `toChild(child, result)`
+   */
+  const fold =
+    (algebra: unknown, toChild: (child: Self, result: unknown) => unknown) =>
+    (root: Opaque<PossibleNames, PossibleVariations>) => {
+      const handlers = algebra as {
+        [name in PossibleNames]?: (
+          payload: unknown,
+          variation: PossibleVariations,
+        ) => unknown;
+      };
+
+      if (!isOpaque(root)) {
+        throw new ForeignOpaqueError(
+          // eslint-disable-next-line no-underscore-dangle
+          String(root?.__OPAQUE_KEY__),
+          // eslint-disable-next-line no-underscore-dangle
+          String(root?.__OPAQUE_VARIATION__),
+          showValue(root),
+        );
+      }
+
+      const results = new Map<unknown, unknown>();
+      const stack = [{ opaque: root, expanded: false }];
+
+      while (stack.length > 0) {
+        const frame = stack[stack.length - 1];
+
+        if (!frame.expanded) {
+          frame.expanded = true;
+
+          childrenOf(frame.opaque.value)
+            .filter((child) => !results.has(child))
+            .forEach((child) => stack.push({ opaque: child, expanded: false }));
+        } else {
+          stack.pop();
+
+          const { opaque } = frame;
+
+          if (!results.has(opaque)) {
+            /* eslint-disable no-underscore-dangle */
+            const handler = handlers[opaque.__OPAQUE_KEY__];
+
+            if (handler === undefined) {
+              throw new UnionError(
+                `No handler found to fold ${showValue(opaque)}`,
+              );
+            }
+
+            results.set(
+              opaque,
+              handler(
+                replaceChildren(opaque.value, (child) =>
+                  toChild(child, results.get(child)),
+                ),
+                opaque.__OPAQUE_VARIATION__,
+              ),
+            );
+            /* eslint-enable no-underscore-dangle */
+          }
+        }
+      }
+
+      return results.get(root);
+    };
+
+  return {
+    cata: (algebra) => fold(algebra, (_child, result) => result),
+    para: (algebra) =>
+      fold(algebra, (child, result) => ({ opaque: child, result })),
+  } as Recursion<Names, Variations, Types, Brand>;
+}
@@ -0,0 +1,161 @@
+import { definitionOf } from './definition';
+import type { Opaque } from './index';
+
+/**
+ * Print an opaque in a compact and readable form, like `Text.Sent({ ... })`.
+ * Members with the "default" variation print as `Text({ ... })`.
+ *
+ * @remarks
+ * Payloads are printed with the `show` formatter given to
+ * {@link "type" | `type`}, if any. Otherwise the fields listed in its `redact`
+ * option are replaced by `<redacted>`.
+ *
+ * Opaques print the same way with `console.log` and `util.inspect` in Node,
+ * and in the messages of the errors thrown by the library.
+ *
+ * @example
+```typescript
+  const MessageAPI = Union.ofVariations({
+    Text: {
+      Sent: Union.type<$Text>({ redact: ['author'] }),
+    },
+  });
+
+  MessageAPI.show(MessageAPI.of.Text.Sent({ content: 'hello', author: 'me' }));
+  // Text.Sent({ content: "hello", author: <redacted> })
+```
+ *
+ * @typeParam Opaques - The opaques of the union
+ */
+export type Show<Opaques> = (opaque: Opaques) => string;
+
+/**
+ * The symbol Node looks for to print a value with `util.inspect`
+ *
+ * @internal
+ */
+export const inspect = Symbol.for('nodejs.util.inspect.custom');
+
+/**
+ * Print the name and the variation of an opaque around its printed payload
+ *
+ * @internal
+ */
+function showMember(name: string, variation: string, payload: string) {
+  return variation === 'default'
+    ? `${name}(${payload})`
+    : `${name}.${variation}(${payload})`;
+}
+
+/**
+ * Print any value. Opaques print with the formatters of their union.
+ *
+ * @internal
+ */
+export function showValue(
+  value: unknown,
+  redact: ReadonlyArray<PropertyKey> = [],
+  seen: ReadonlyArray<unknown> = [],
+): string {
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'function') {
+    return '[Function]';
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return String(value);
+  }
+
+  if (seen.includes(value)) {
+    return '[Circular]';
+  }
+
+  const print = (value as { [inspect]?: unknown })[inspect];
+
+  if (typeof print === 'function') {
+    return print.call(value);
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value
+      .map((item) => showValue(item, [], [...seen, value]))
+      .join(', ')}]`;
+  }
+
+  const fields = Object.keys(value).map((key) =>
+    redact.includes(key)
+      ? `${key}: <redacted>`
+      : `${key}: ${showValue(
+          (value as { [key: string]: unknown })[key],
+          [],
+          [...seen, value],
+        )}`,
+  );
+
+  return fields.length === 0 ? '{}' : `{ ${fields.join(', ')} }`;
+}
+
+/**
+ * Create the `show` function of a union and the prototype of its opaques
+ *
+ * @internal
+ */
+export function createShow<Opaques>(types: {
+  [name: string]: { [variation: string]: unknown };
+}) {
+  const show = (opaque: Opaque<string, string>) => {
+    /* eslint-disable no-underscore-dangle */
+    const { show: format, redact } = definitionOf(
+      types[opaque.__OPAQUE_KEY__]?.[opaque.__OPAQUE_VARIATION__],
+    );
+
+    return showMember(
+      opaque.__OPAQUE_KEY__,
+      opaque.__OPAQUE_VARIATION__,
+      format === undefined
+        ? showValue(opaque.value, redact)
+        : format(opaque.value),
+    );
+    /* eslint-enable no-underscore-dangle */
+  };
+
+  /**
+   * Print a payload rejected by the validator: the formatter may not handle
+   * it, only the redaction is applied
+   */
+  const showInvalid = (name: string, variation: string, payload: unknown) =>
+    showMember(
+      name,
+      variation,
+      showValue(payload, definitionOf(types[name]?.[variation]).redact),
+    );
+
+  const prototype = {
+    [inspect](this: Opaque<string, string>) {
+      return show(this);
+    },
+
+    toString(this: Opaque<string, string>) {
+      return show(this);
+    },
+  };
+
+  // hide the helpers from enumeration, spread and JSON
+  Object.defineProperties(prototype, {
+    [inspect]: { enumerable: false },
+    toString: { enumerable: false },
+  });
+
+  return {
+    show: show as unknown as Show<Opaques>,
+    showInvalid,
+    prototype,
+  };
+}
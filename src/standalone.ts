@@ -0,0 +1,415 @@
+import { Iso, Lens, Prism } from 'monocle-ts';
+import { none, some } from 'fp-ts/Option';
+
+import { createFold, Fold } from './fold';
+import type { Opaque, UnionOptions } from './index';
+import { createMatchObject, Match } from './match';
+import type {
+  AllVariations,
+  Members,
+  NamesOf,
+  PayloadOf,
+  VariationsOf,
+} from './members';
+import { BrandOf, brandsOf, createOpaques, defaultVariations } from './opaques';
+
+type PossibleNames = string | number | symbol;
+type PossibleVariations = string | number | symbol;
+
+/**
+ * The minimal description of a union: what the standalone functions need to
+ * create, check and read its opaques. Union apis are descriptors too.
+ *
+ * @example
+```typescript
+import * as Union from '@iadvize-oss/opaque-union';
+
+const Message = Union.descriptorOfVariations({
+  Text: {
+    Sent: Union.type<$Text>(),
+    Pending: Union.type<$Text>(),
+  },
+  Image: {
+    Sent: Union.type<$Image>(),
+  },
+});
+
+const isText = Union.is(Message, 'Text');
+const content = Union.lens(Message, 'Text', 'Sent', 'content');
+```
+ *
+ * @typeParam Types - Collection of private types of the union
+ * @typeParam Brand - The brand of the union
+ */
+export type Descriptor<Types, Brand = unknown> = {
+  types: Types;
+  options: UnionOptions;
+  brands: { [name in keyof Types]: string };
+
+  /**
+   * The brand of the union, at the type level only
+   */
+  readonly __BRAND__?: Brand;
+};
+
+/**
+ * Private types of any union
+ *
+ * @internal
+ */
+type AnyTypes = {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  [name: string]: { [variation: string]: any };
+};
+
+function createAnyOpaques(api: Descriptor<unknown>) {
+  return createOpaques<PossibleNames, PossibleVariations, AnyTypes, unknown>(
+    api.types as AnyTypes,
+    api.options,
+    api.brands as { [name: string]: string },
+  );
+}
+
+/**
+ * Opaques functions of each descriptor, created on first use
+ */
+const opaquesByDescriptor = new WeakMap<
+  Descriptor<unknown>,
+  ReturnType<typeof createAnyOpaques>
+>();
+
+function opaquesOf(api: Descriptor<unknown>) {
+  const cached = opaquesByDescriptor.get(api);
+
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const opaques = createAnyOpaques(api);
+
+  opaquesByDescriptor.set(api, opaques);
+
+  return opaques;
+}
+
+/**
+ * Describe a union with variations, like {@link ofVariations} but without
+ * creating its api
+ *
+ * @param types - The private types of each variation of each member
+ * @param options - The union options, see {@link UnionOptions}
+ *
+ * @returns The union descriptor, see {@link Descriptor}
+ */
+export function descriptorOfVariations<
+  Types extends {
+    [key in keyof Types]: {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      [key: string]: any;
+    };
+  },
+  Namespace extends string = never,
+>(
+  types: Types,
+  options: UnionOptions<Namespace, never> = {},
+): Descriptor<Types, BrandOf<Namespace>> {
+  return { types, options, brands: brandsOf(types, options.namespace) };
+}
+
+/**
+ * Describe a union, like {@link of} but without creating its api
+ *
+ * @param types - The private types of each member
+ * @param options - The union options, see {@link UnionOptions}
+ *
+ * @returns The union descriptor, see {@link Descriptor}
+ */
+export function descriptor<
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  Types extends { [key in keyof Types]: any },
+  Namespace extends string = never,
+>(types: Types, options: UnionOptions<Namespace, never> = {}) {
+  return descriptorOfVariations<
+    { [name in keyof Types]: { default: Types[name] } },
+    Namespace
+  >(defaultVariations(types), options);
+}
+
+/**
+ * Get the constructor of a member
+ *
+ * @example
+```typescript
+const text = Union.construct(Message, 'Text', 'Sent')(value);
+const image = Union.construct(Media, 'Image')(value); // "default" variation
+```
+ */
+export function construct<
+  Types,
+  Brand,
+  Name extends NamesOf<Types, keyof Types, 'default'>,
+>(
+  api: Descriptor<Types, Brand>,
+  name: Name,
+): (
+  payload: PayloadOf<Types, Name, 'default'>,
+) => Opaque<Name, 'default', Brand>;
+export function construct<
+  Types,
+  Brand,
+  Name extends keyof Types,
+  Variation extends VariationsOf<Types, Name, AllVariations<Types>>,
+>(
+  api: Descriptor<Types, Brand>,
+  name: Name,
+  variation: Variation,
+): (
+  payload: PayloadOf<Types, Name, Variation>,
+) => Opaque<Name, Variation, Brand>;
+export function construct(
+  api: Descriptor<unknown>,
+  name: PossibleNames,
+  variation: PossibleVariations = 'default',
+) {
+  const { build } = opaquesOf(api);
+
+  return (payload: unknown) => build(name, variation, payload);
+}
+
+/**
+ * Get the type guard of the union, of a member or of a variation of a member
+ *
+ * @example
+```typescript
+Union.is(Message)(thing);
+Union.is(Message, 'Text')(thing);
+Union.is(Message, 'Text', 'Sent')(thing);
+```
+ */
+export function is<Types, Brand>(
+  api: Descriptor<Types, Brand>,
+): (
+  thing: unknown,
+) => thing is Members<keyof Types, AllVariations<Types>, Types, Brand>;
+export function is<Types, Brand, Name extends keyof Types>(
+  api: Descriptor<Types, Brand>,
+  name: Name,
+): (
+  thing: unknown,
+) => thing is Members<Name, AllVariations<Types>, Types, Brand>;
+export function is<
+  Types,
+  Brand,
+  Name extends keyof Types,
+  Variation extends VariationsOf<Types, Name, AllVariations<Types>>,
+>(
+  api: Descriptor<Types, Brand>,
+  name: Name,
+  variation: Variation,
+): (thing: unknown) => thing is Opaque<Name, Variation, Brand>;
+export function is(
+  api: Descriptor<unknown>,
+  name?: PossibleNames,
+  variation?: PossibleVariations,
+) {
+  const { guard } = opaquesOf(api);
+
+  return (thing: unknown) => guard(thing, name, variation);
+}
+
+/**
+ * Fold on the members of a union, see {@link Fold}
+ *
+ * @example
+```typescript
+Union.fold(Message)({
+  Text: (text) => 'text',
+  Image: (image) => 'image',
+})(message);
+```
+ */
+export function fold<Types, Brand>(
+  api: Descriptor<Types, Brand>,
+): Fold<
+  {
+    [name in keyof Types]: Members<name, AllVariations<Types>, Types, Brand>;
+  }
+> {
+  const { guard } = opaquesOf(api);
+
+  const guards: { [name: string]: (thing: unknown) => boolean } = {};
+
+  Object.keys(api.types).forEach((name) => {
+    guards[name] = (thing) => guard(thing, name);
+  });
+
+  return createFold(guards) as Fold<
+    {
+      [name in keyof Types]: Members<name, AllVariations<Types>, Types, Brand>;
+    }
+  >;
+}
+
+/**
+ * Match some members of a union, with a `_` fallback, see {@link Match}
+ */
+export function match<Types, Brand>(
+  api: Descriptor<Types, Brand>,
+): Match<
+  {
+    [name in keyof Types]: Members<name, AllVariations<Types>, Types, Brand>;
+  }
+> {
+  const { guard } = opaquesOf(api);
+
+  const guards: { [name: string]: (thing: unknown) => boolean } = {};
+
+  Object.keys(api.types).forEach((name) => {
+    guards[name] = (thing) => guard(thing, name);
+  });
+
+  return createMatchObject(guards);
+}
+
+function isoOf(
+  api: Descriptor<unknown>,
+  name: PossibleNames,
+  variation: PossibleVariations,
+) {
+  const { unwrap, build } = opaquesOf(api);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return new Iso<Opaque<PossibleNames, PossibleVariations>, any>(
+    unwrap,
+    (payload) => build(name, variation, payload),
+  );
+}
+
+/**
+ * Get the iso between a member and its private type
+ *
+ * @example
+```typescript
+Union.iso(Message, 'Text', 'Sent').get(text);
+Union.iso(Media, 'Image').get(image); // "default" variation
+```
+ */
+export function iso<
+  Types,
+  Brand,
+  Name extends NamesOf<Types, keyof Types, 'default'>,
+>(
+  api: Descriptor<Types, Brand>,
+  name: Name,
+): Iso<Opaque<Name, 'default', Brand>, PayloadOf<Types, Name, 'default'>>;
+export function iso<
+  Types,
+  Brand,
+  Name extends keyof Types,
+  Variation extends VariationsOf<Types, Name, AllVariations<Types>>,
+>(
+  api: Descriptor<Types, Brand>,
+  name: Name,
+  variation: Variation,
+): Iso<Opaque<Name, Variation, Brand>, PayloadOf<Types, Name, Variation>>;
+export function iso(
+  api: Descriptor<unknown>,
+  name: PossibleNames,
+  variation: PossibleVariations = 'default',
+): unknown {
+  return isoOf(api, name, variation);
+}
+
+/**
+ * Get the prism from the members of a union to the private type of one of
+ * them
+ *
+ * @example
+```typescript
+Union.prism(Message, 'Text', 'Sent').getOption(message);
+```
+ */
+export function prism<
+  Types,
+  Brand,
+  Name extends NamesOf<Types, keyof Types, 'default'>,
+>(
+  api: Descriptor<Types, Brand>,
+  name: Name,
+): Prism<
+  Members<keyof Types, AllVariations<Types>, Types, Brand>,
+  PayloadOf<Types, Name, 'default'>
+>;
+export function prism<
+  Types,
+  Brand,
+  Name extends keyof Types,
+  Variation extends VariationsOf<Types, Name, AllVariations<Types>>,
+>(
+  api: Descriptor<Types, Brand>,
+  name: Name,
+  variation: Variation,
+): Prism<
+  Members<keyof Types, AllVariations<Types>, Types, Brand>,
+  PayloadOf<Types, Name, Variation>
+>;
+export function prism(
+  api: Descriptor<unknown>,
+  name: PossibleNames,
+  variation: PossibleVariations = 'default',
+): unknown {
+  const { guard, build } = opaquesOf(api);
+
+  return new Prism<Opaque<PossibleNames, PossibleVariations>, unknown>(
+    (opaque) => (guard(opaque, name, variation) ? some(opaque.value) : none),
+    (payload) => build(name, variation, payload),
+  );
+}
+
+/**
+ * Get the lens from a member to a property of its private type
+ *
+ * @example
+```typescript
+Union.lens(Message, 'Text', 'Sent', 'content').get(text);
+Union.lens(Media, 'Image', 'source').get(image); // "default" variation
+```
+ */
+export function lens<
+  Types,
+  Brand,
+  Name extends NamesOf<Types, keyof Types, 'default'>,
+  Prop extends keyof PayloadOf<Types, Name, 'default'>,
+>(
+  api: Descriptor<Types, Brand>,
+  name: Name,
+  prop: Prop,
+): Lens<
+  Opaque<Name, 'default', Brand>,
+  PayloadOf<Types, Name, 'default'>[Prop]
+>;
+export function lens<
+  Types,
+  Brand,
+  Name extends keyof Types,
+  Variation extends VariationsOf<Types, Name, AllVariations<Types>>,
+  Prop extends keyof PayloadOf<Types, Name, Variation>,
+>(
+  api: Descriptor<Types, Brand>,
+  name: Name,
+  variation: Variation,
+  prop: Prop,
+): Lens<
+  Opaque<Name, Variation, Brand>,
+  PayloadOf<Types, Name, Variation>[Prop]
+>;
+export function lens(
+  api: Descriptor<unknown>,
+  name: PossibleNames,
+  ...rest: [PossibleNames] | [PossibleVariations, PossibleNames]
+): unknown {
+  const [variation, prop] = rest.length === 1 ? ['default', rest[0]] : rest;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return isoOf(api, name, variation).composeLens(Lens.fromProp<any>()(prop));
+}
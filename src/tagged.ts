@@ -0,0 +1,256 @@
+import { UnionError } from './errors';
+import type { PayloadOf, VariationsOf } from './members';
+
+type PossibleNames = string | number | symbol;
+type PossibleVariations = string | number | symbol;
+
+/**
+ * The keys of the name and the variation of the members in their tagged form,
+ * see {@link UnionOptions.tagKey} and {@link UnionOptions.variationKey}
+ *
+ * @internal
+ */
+export type TagKeys = { tag: string; variation: string };
+
+/**
+ * The keys of the tagged form when the union doesn't specify them
+ *
+ * @internal
+ */
+export type DefaultTagKeys = { tag: '_tag'; variation: '_variation' };
+
+/**
+ * Reject the union option giving `_value`, which holds the wrapped payloads,
+ * to a key of the tagged form
+ *
+ * @internal
+ */
+type UnreservedKey<
+  Key extends string,
+  Option extends string,
+> = string extends Key
+  ? {}
+  : '_value' extends Key
+  ? { [option in Option]?: never }
+  : {};
+
+/**
+ * Reject the union options giving the same literal to the tag key and the
+ * variation key, or `_value` to one of them
+ *
+ * @internal
+ */
+export type ValidTagKeys<
+  TagKey extends string,
+  VariationKey extends string,
+> = UnreservedKey<TagKey, 'tagKey'> &
+  UnreservedKey<VariationKey, 'variationKey'> &
+  (string extends TagKey | VariationKey
+    ? {}
+    : [TagKey] extends [VariationKey]
+    ? { tagKey?: never; variationKey?: never }
+    : {});
+
+/**
+ * Get the keys of the tagged form from the union options
+ *
+ * @throws {@link UnionError} when the tag key and the variation key are equal,
+ * or when one of them is `_value`
+ *
+ * @internal
+ */
+export function tagKeysOf(options: {
+  tagKey?: string;
+  variationKey?: string;
+}): TagKeys {
+  const keys = {
+    tag: options.tagKey ?? '_tag',
+    variation: options.variationKey ?? '_variation',
+  };
+
+  if (keys.tag === keys.variation) {
+    throw new UnionError(
+      `The tag key and the variation key must differ: "${keys.tag}"`,
+    );
+  }
+
+  if (keys.tag === '_value' || keys.variation === '_value') {
+    throw new UnionError(
+      'The tag key and the variation key cannot be "_value", which holds the wrapped payloads',
+    );
+  }
+
+  return keys;
+}
+
+/**
+ * A payload wrapped in its tagged form
+ *
+ * @internal
+ */
+type Wrapped<T> = { readonly _value: T };
+
+/**
+ * The keys a spread payload can't have: `_value` and the keys of the name and
+ * the variation
+ *
+ * @internal
+ */
+type ReservedKeys<Keys extends TagKeys> =
+  | '_value'
+  | Keys['tag']
+  | Keys['variation'];
+
+/**
+ * A payload in its tagged form: spread when it is a record without any
+ * reserved key, wrapped in `_value` otherwise. A record with optional
+ * reserved keys can be both.
+ *
+ * @internal
+ */
+type TaggedPayload<T, Keys extends TagKeys> = T extends
+  | ReadonlyArray<unknown>
+  | Date
+  | ReadonlyMap<unknown, unknown>
+  | ReadonlySet<unknown>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  | ((...args: any[]) => unknown)
+  ? Wrapped<T>
+  : T extends object
+  ? [Extract<keyof T, ReservedKeys<Keys>>] extends [never]
+    ? T
+    : {} extends Pick<T, Extract<keyof T, ReservedKeys<Keys>>>
+    ? T | Wrapped<T>
+    : Wrapped<T>
+  : Wrapped<T>;
+
+/**
+ * Helper type to add the props `_tag` and `_variation` on T
+ * Usefull for ISO
+ *
+ * @remarks
+ * Plain objects are spread next to `_tag` and `_variation`. Any other payload
+ * (primitives, arrays, dates, maps, sets, functions, class instances and
+ * objects with their own `_value`, `_tag` or `_variation`) is wrapped in
+ * `_value`. The union can rename `_tag` and `_variation`, see
+ * {@link UnionOptions.tagKey}.
+ *
+ * Class instances can't be told apart from plain objects at the type level:
+ * their tagged form is typed as spread.
+ *
+ * @example
+```typescript
+type TaggedText = Tagged<'Text', 'Sent', { content: string }>;
+// { _tag: 'Text'; _variation: 'Sent'; content: string }
+
+type TaggedEmoji = Tagged<'Emoji', 'Sent', string>;
+// { _tag: 'Emoji'; _variation: 'Sent'; _value: string }
+
+type TaggedAction = Tagged<'Text', 'Sent', { content: string }, { tag: 'type'; variation: 'status' }>;
+// { type: 'Text'; status: 'Sent'; content: string }
+```
+ *
+ * @typeParam Name - The name of the member
+ * @typeParam Variation - The variation of the member
+ * @typeParam Type - The private type of the member
+ * @typeParam Keys - The keys of the name and the variation
+ */
+export type Tagged<
+  Name extends PossibleNames,
+  Variation extends PossibleVariations,
+  Type,
+  Keys extends TagKeys = DefaultTagKeys,
+> = (Type extends unknown ? TaggedPayload<Type, Keys> : never) &
+  {
+    readonly [key in Keys['tag']]: Name;
+  } &
+  {
+    readonly [key in Keys['variation']]: Variation;
+  };
+
+/**
+ * Mapped type to store `Tagged` types
+ * Usefull for ISO
+ *
+ * @internal
+ *
+ * @typeParam Types - Collection of private types of the union
+ * @typeParam Keys - The keys of the name and the variation
+ */
+export type TaggedTypes<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+  Keys extends TagKeys = DefaultTagKeys,
+> = {
+  [name in Names]: {
+    [variation in VariationsOf<Types, name, Variations>]: Tagged<
+      name,
+      variation,
+      PayloadOf<Types, name, variation>,
+      Keys
+    >;
+  }[VariationsOf<Types, name, Variations>];
+};
+
+/**
+ * Whether a payload is spread in its tagged form: a plain object without
+ * `_value` nor the keys of the name and the variation, so that spreading it
+ * keeps its prototype, doesn't overwrite the tags and reading `_value` back is
+ * unambiguous. See {@link Tagged}.
+ *
+ * @internal
+ */
+function isSpread(
+  keys: TagKeys,
+  payload: unknown,
+): payload is { [key: string]: unknown } {
+  if (typeof payload !== 'object' || payload === null) {
+    return false;
+  }
+
+  return (
+    Object.getPrototypeOf(payload) === Object.prototype &&
+    ['_value', keys.tag, keys.variation].every(
+      (key) => !Object.prototype.hasOwnProperty.call(payload, key),
+    )
+  );
+}
+
+/**
+ * Get the tagged form of a payload, see {@link Tagged}
+ *
+ * @internal
+ */
+export function toTagged(
+  keys: TagKeys,
+  name: PossibleNames,
+  variation: PossibleVariations,
+  payload: unknown,
+) {
+  return isSpread(keys, payload)
+    ? { [keys.tag]: name, [keys.variation]: variation, ...payload }
+    : { [keys.tag]: name, [keys.variation]: variation, _value: payload };
+}
+
+/**
+ * Get back the name, the variation and the payload of a tagged form, see
+ * {@link Tagged}
+ *
+ * @internal
+ */
+export function fromTagged(keys: TagKeys, tagged: object) {
+  const {
+    [keys.tag]: name,
+    [keys.variation]: variation,
+    ...payload
+  } = tagged as { [key: string]: unknown };
+
+  return {
+    name: name as PossibleNames,
+    variation: variation as PossibleVariations,
+    payload: Object.prototype.hasOwnProperty.call(payload, '_value')
+      ? (payload as { _value: unknown })._value
+      : payload,
+  };
+}
@@ -0,0 +1,206 @@
+import { IllegalTransitionError, UnionError } from './errors';
+import { extendLazy } from './lazy';
+import { showValue } from './show';
+import type { Opaque } from './index';
+import type { PayloadOf, VariationsOf } from './members';
+
+type PossibleNames = string | number | symbol;
+type PossibleVariations = string | number | symbol;
+
+/**
+ * The transitions allowed between the variations of a union: for each
+ * variation, the variations it can go to
+ *
+ * @example
+```typescript
+const transitions = {
+  Pending: ['Sent', 'Failed'],
+  Failed: ['Pending'],
+};
+```
+ */
+export type Transitions<Variations extends PossibleVariations> = {
+  readonly [from in Variations]?: ReadonlyArray<Variations>;
+};
+
+/**
+ * Variations reachable from `From`
+ *
+ * @internal
+ */
+type TargetsOf<T, From> = From extends keyof T
+  ? NonNullable<T[From]> extends ReadonlyArray<infer To>
+    ? To
+    : never
+  : never;
+
+/**
+ * Transition functions of a member: one function for each declared edge,
+ * taking an opaque of the source variation and a function to compute the
+ * payload of the target variation
+ *
+ * @example
+```typescript
+const MessageAPI = Union.ofVariations(
+  {
+    Text: {
+      Pending: Union.type<$Text>(),
+      Sent: Union.type<$Text>(),
+      Failed: Union.type<$Text>(),
+    },
+  },
+  {
+    transitions: {
+      Pending: ['Sent', 'Failed'],
+    },
+  },
+);
+
+// send :: (text: TextPending) => TextSent
+const send = (text: TextPending) =>
+  MessageAPI.Text.transition.Pending.Sent(text, (payload) => payload);
+```
+ */
+export type Transition<
+  Name extends PossibleNames,
+  Variations extends PossibleVariations,
+  Types extends { [name in Name]: unknown },
+  Brand,
+  T,
+> = {
+  [from in keyof T & VariationsOf<Types, Name, Variations>]: {
+    [to in TargetsOf<T, from> & VariationsOf<Types, Name, Variations>]: (
+      opaque: Opaque<Name, from, Brand>,
+      f: (payload: PayloadOf<Types, Name, from>) => PayloadOf<Types, Name, to>,
+    ) => Opaque<Name, to, Brand>;
+  };
+};
+
+/**
+ * The part of the union api related to transitions, only present when
+ * transitions are declared
+ */
+export type TransitionsAPI<
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  Types extends { [name in Names]: unknown },
+  Brand,
+  T,
+> = [T] extends [never]
+  ? unknown
+  : {
+      /**
+       * The declared transitions graph
+       */
+      transitions: T;
+
+      /**
+       * Tell if the transition from a variation to another is declared
+       */
+      canTransition: (from: Variations, to: Variations) => boolean;
+    } & {
+      [name in Names]: {
+        /**
+         * {@inheritDoc Transition}
+         */
+        transition: Transition<name, Variations, Types, Brand, T>;
+      };
+    };
+
+/**
+ * The minimal union api needed to create the transitions
+ *
+ * @internal
+ */
+type TransitionsSource = {
+  is: {
+    [name: string]: {
+      [variation: string]: (thing: unknown) => boolean;
+    };
+  };
+  of: {
+    [name: string]: {
+      [variation: string]: (payload: unknown) => unknown;
+    };
+  };
+  [name: string]: unknown;
+};
+
+/**
+ * Add the transitions to a union api. Each member only gets the transitions
+ * between its own variations.
+ *
+ * @internal
+ */
+export function withTransitions<API>(
+  api: API,
+  types: { [name: string]: object },
+  transitions: Transitions<PossibleVariations>,
+): API {
+  const source = api as unknown as TransitionsSource;
+
+  const names = Object.keys(types);
+  const froms = Object.keys(transitions);
+
+  const hasVariation = (name: string, variation: PossibleVariations) =>
+    Object.prototype.hasOwnProperty.call(types[name], variation);
+
+  froms.forEach((from) => {
+    [from, ...(transitions[from] ?? [])].forEach((variation) => {
+      if (!names.some((name) => hasVariation(name, variation))) {
+        throw new UnionError(
+          `Unknown variation "${String(variation)}" in transitions`,
+        );
+      }
+    });
+  });
+
+  const canTransition = (from: PossibleVariations, to: PossibleVariations) =>
+    Object.prototype.hasOwnProperty.call(transitions, from) &&
+    (transitions[from as string] ?? []).indexOf(to) > -1;
+
+  names.forEach((name) => {
+    const transition: {
+      [from: string]: { [to: string]: unknown };
+    } = {};
+
+    froms
+      .filter((from) => hasVariation(name, from))
+      .forEach((from) => {
+        transition[from] = {};
+
+        (transitions[from] ?? [])
+          .filter((to) => hasVariation(name, to))
+          .forEach((to) => {
+            transition[from][to as string] = (
+              opaque: Opaque<PossibleNames, PossibleVariations>,
+              f: (payload: unknown) => unknown,
+            ) => {
+              if (!source.is[name][from](opaque)) {
+                throw new IllegalTransitionError(
+                  // eslint-disable-next-line no-underscore-dangle
+                  String(opaque?.__OPAQUE_KEY__),
+                  // eslint-disable-next-line no-underscore-dangle
+                  String(opaque?.__OPAQUE_VARIATION__),
+                  String(to),
+                  showValue(opaque),
+                );
+              }
+
+              return source.of[name][to as string](
+                f((opaque as unknown as { value: unknown }).value),
+              );
+            };
+          });
+      });
+
+    // the api is created with its transitions: its members are not shared
+    // yet, and lazy members stay lazy
+    extendLazy<Record<string, unknown>>(source, name, (member) => {
+      // eslint-disable-next-line no-param-reassign
+      member.transition = transition;
+    });
+  });
+
+  return Object.assign(api, { transitions, canTransition });
+}
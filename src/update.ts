@@ -0,0 +1,172 @@
+import { ForeignOpaqueError, UnionError } from './errors';
+import type { Opaque } from './index';
+import type { PayloadOf } from './members';
+import { showValue } from './show';
+
+type PossibleNames = string | number | symbol;
+type PossibleVariations = string | number | symbol;
+
+/**
+ * Private type of an opaque, `O` being possibly a union of opaques
+ *
+ * @internal
+ */
+export type PayloadOfOpaque<Types, O> = O extends Opaque<
+  infer Name,
+  infer Variation,
+  unknown
+>
+  ? PayloadOf<Types, Name, Variation>
+  : never;
+
+/**
+ * Fields to change in a record payload. Other payloads (primitives, arrays,
+ * dates, maps, sets and functions) can only be changed with `modify`.
+ *
+ * @internal
+ */
+export type Patch<T> = T extends
+  | ReadonlyArray<unknown>
+  | Date
+  | ReadonlyMap<unknown, unknown>
+  | ReadonlySet<unknown>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  | ((...args: any[]) => unknown)
+  ? never
+  : T extends object
+  ? Partial<T>
+  : never;
+
+/**
+ * Immutable updates of the members of a union. The name and the variation of
+ * the opaque are kept.
+ *
+ * @remarks
+ * The given opaque is returned as is when nothing changed: every field of the
+ * patch is already equal (`Object.is`) to the one of the payload, or `modify`
+ * returns the same payload.
+ *
+ * @example
+```typescript
+  const text = MessageAPI.of.Text.Sent({ content: 'hello', sentAt: 1 });
+
+  MessageAPI.Text.update(text, { content: 'hello world' });
+  MessageAPI.Text.Sent.modify(text, (payload) => ({
+    ...payload,
+    sentAt: payload.sentAt + 1,
+  }));
+
+  // any member of the union
+  MessageAPI.update(message, { content: 'hello world' });
+```
+ *
+ * @typeParam Types - The private types of the union
+ * @typeParam Opaques - The opaques that can be updated
+ */
+export type Update<Types, Opaques> = {
+  /**
+   * Get a copy of an opaque with some fields of its payload changed. Throws a
+   * {@link UnionError} when the payload is not a plain object.
+   */
+  update: <O extends Opaques>(
+    opaque: O,
+    patch: Patch<PayloadOfOpaque<Types, O>>,
+  ) => O;
+
+  /**
+   * Get a copy of an opaque with its payload transformed by `f`
+   */
+  modify: <O extends Opaques>(
+    opaque: O,
+    f: (payload: PayloadOfOpaque<Types, O>) => PayloadOfOpaque<Types, O>,
+  ) => O;
+};
+
+/**
+ * Whether a payload is a plain object, the only payloads `update` and
+ * `optionalFromProp` copy with a spread
+ *
+ * @internal
+ */
+export function isPlainObject(
+  value: unknown,
+): value is { [key: string]: unknown } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (Object.getPrototypeOf(value) === Object.prototype ||
+      Object.getPrototypeOf(value) === null)
+  );
+}
+
+/**
+ * Create the update functions of a union, from the functions reading and
+ * building its opaques. They throw a {@link ForeignOpaqueError} on the opaques
+ * rejected by `accepts`, to scope them to a name, a variation or a member.
+ *
+ * @internal
+ */
+export function createUpdate<
+  Types,
+  Opaques,
+  Names extends PossibleNames,
+  Variations extends PossibleVariations,
+  Brand,
+>(
+  unwrap: (opaque: Opaque<Names, Variations, Brand>) => unknown,
+  build: (name: Names, variation: Variations, value: unknown) => unknown,
+  accepts: (opaque: Opaque<Names, Variations, Brand>) => boolean = () => true,
+): Update<Types, Opaques> {
+  const check = (opaque: Opaque<Names, Variations, Brand>) => {
+    if (!accepts(opaque)) {
+      throw new ForeignOpaqueError(
+        // eslint-disable-next-line no-underscore-dangle
+        String(opaque.__OPAQUE_KEY__),
+        // eslint-disable-next-line no-underscore-dangle
+        String(opaque.__OPAQUE_VARIATION__),
+        showValue(opaque),
+      );
+    }
+  };
+
+  const rebuild = (opaque: Opaque<Names, Variations, Brand>, value: unknown) =>
+    // eslint-disable-next-line no-underscore-dangle
+    build(opaque.__OPAQUE_KEY__, opaque.__OPAQUE_VARIATION__, value);
+
+  const update = (
+    opaque: Opaque<Names, Variations, Brand>,
+    patch: { [key: string]: unknown },
+  ) => {
+    check(opaque);
+
+    const value = unwrap(opaque);
+
+    if (!isPlainObject(value)) {
+      throw new UnionError(
+        `Cannot update a payload that is not a plain object: ${showValue(
+          opaque,
+        )}`,
+      );
+    }
+
+    const changed = Object.keys(patch).some(
+      (key) => !(key in value) || !Object.is(value[key], patch[key]),
+    );
+
+    return changed ? rebuild(opaque, { ...value, ...patch }) : opaque;
+  };
+
+  const modify = (
+    opaque: Opaque<Names, Variations, Brand>,
+    f: (payload: unknown) => unknown,
+  ) => {
+    check(opaque);
+
+    const value = unwrap(opaque);
+    const newValue = f(value);
+
+    return Object.is(value, newValue) ? opaque : rebuild(opaque, newValue);
+  };
+
+  return { update, modify } as unknown as Update<Types, Opaques>;
+}
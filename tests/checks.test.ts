@@ -0,0 +1,128 @@
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('checks', () => {
+      type Text = { content: string };
+      type Image = { source: string };
+
+      const types = {
+        Text: {
+          Sent: Union.type<Text>(),
+          Pending: Union.type<Text>(),
+        },
+        Image: {
+          Sent: Union.type<Image>(),
+        },
+      };
+
+      const UnionAPI = Union.ofVariations(types);
+
+      it('rejects unknown names', () => {
+        expect(() =>
+          UnionAPI.of(
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            'Txet',
+            'Sent',
+            { content: 'hello' },
+          ),
+        ).toThrow('Unknown member "Txet" (members: Text, Image)');
+
+        expect(() =>
+          UnionAPI.of.Sent(
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            'Video',
+            { source: 'a.mp4' },
+          ),
+        ).toThrow(Union.UnknownMemberError);
+      });
+
+      it('rejects unknown variations', () => {
+        expect(() =>
+          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+          // @ts-expect-error
+          UnionAPI.of.Text({ content: 'hello' }),
+        ).toThrow(
+          'Unknown variation "default" of member "Text" (variations: Sent, Pending)',
+        );
+
+        expect(() =>
+          UnionAPI.of.Image(
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            'Pending',
+            { source: 'a.png' },
+          ),
+        ).toThrow(Union.UnknownMemberError);
+
+        expect(() =>
+          UnionAPI.Sent.iso.reverseGet(
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            { _tag: 'Video', _variation: 'Sent', source: 'a.mp4' },
+          ),
+        ).toThrow(Union.UnknownMemberError);
+      });
+
+      it('gives the name and the variation', () => {
+        try {
+          UnionAPI.of(
+            'Image',
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            'Pending',
+            { source: 'a.png' },
+          );
+        } catch (error) {
+          expect(error).toBeInstanceOf(Union.UnionError);
+          expect((error as Union.UnknownMemberError).memberName).toEqual(
+            'Image',
+          );
+          expect((error as Union.UnknownMemberError).variation).toEqual(
+            'Pending',
+          );
+        }
+
+        expect.assertions(3);
+      });
+
+      it('can be disabled', () => {
+        const UncheckedAPI = Union.ofVariations(types, { checks: false });
+
+        expect(
+          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+          // @ts-expect-error
+          UncheckedAPI.is(UncheckedAPI.of.Text({ content: 'hello' })),
+        ).toEqual(false);
+      });
+
+      it('is disabled by default in production', () => {
+        const nodeEnv = process.env.NODE_ENV;
+
+        process.env.NODE_ENV = 'production';
+
+        try {
+          const ProductionAPI = Union.ofVariations(types);
+
+          expect(() =>
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            ProductionAPI.of.Text({ content: 'hello' }),
+          ).not.toThrow();
+
+          const CheckedAPI = Union.ofVariations(types, { checks: true });
+
+          expect(() =>
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            CheckedAPI.of.Text({ content: 'hello' }),
+          ).toThrow(Union.UnknownMemberError);
+        } finally {
+          process.env.NODE_ENV = nodeEnv;
+        }
+      });
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { expectType } from 'tsd';
+
+import { isLeft, isRight, left, right } from 'fp-ts/Either';
+
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('codec', () => {
+      type Text = string;
+      type Image = { source: string };
+
+      const isText = (thing: unknown): thing is Text =>
+        typeof thing === 'string';
+
+      const UnionAPI = Union.ofVariations({
+        Text: {
+          Sent: Union.type(isText),
+          Pending: Union.type(isText),
+        },
+        Image: {
+          Sent: Union.type<Image>(),
+          Pending: Union.type<Image>(),
+        },
+      });
+
+      it('encodes an opaque to a stable JSON shape', () => {
+        const text = UnionAPI.of.Text.Sent('hello');
+
+        const encoded = UnionAPI.codec.encode(text);
+
+        expectType<Union.Encoded<'Text', 'Sent', Text>>(encoded);
+
+        expect(JSON.stringify(encoded)).toEqual(
+          '{"name":"Text","variation":"Sent","payload":"hello"}',
+        );
+      });
+
+      it('does not encode opaques of another union', () => {
+        const OtherAPI = Union.ofVariations({
+          Text: { Sent: Union.type(isText) },
+        });
+
+        expect(() =>
+          UnionAPI.codec.encode(OtherAPI.of.Text.Sent('hello')),
+        ).toThrow(Union.ForeignOpaqueError);
+      });
+
+      it('decodes the JSON shape back to an opaque', () => {
+        const text = UnionAPI.of.Text.Sent('hello');
+        const image = UnionAPI.of.Image.Pending({ source: 'http://' });
+
+        expect(
+          UnionAPI.codec.decode(
+            JSON.parse(JSON.stringify(UnionAPI.codec.encode(text))),
+          ),
+        ).toEqual(right(text));
+
+        expect(
+          UnionAPI.codec.decode(
+            JSON.parse(JSON.stringify(UnionAPI.codec.encode(image))),
+          ),
+        ).toEqual(right(image));
+      });
+
+      it('decodes array payloads', () => {
+        const ListAPI = Union.of({
+          List: Union.type<string[]>(),
+        });
+
+        const list = ListAPI.of.List(['a', 'b']);
+        const decoded = ListAPI.codec.decode(ListAPI.codec.encode(list));
+
+        expect(decoded).toEqual(right(list));
+        expect(isRight(decoded) && ListAPI.List.iso.get(decoded.right)).toEqual(
+          ['a', 'b'],
+        );
+      });
+
+      it('rejects anything that is not an object', () => {
+        expect(UnionAPI.codec.decode('Text')).toEqual(
+          left([{ path: [], message: 'Expected an object, got string' }]),
+        );
+        expect(UnionAPI.codec.decode(null)).toEqual(
+          left([{ path: [], message: 'Expected an object, got null' }]),
+        );
+      });
+
+      it('rejects unknown names and variations', () => {
+        expect(
+          UnionAPI.codec.decode({
+            name: 'Video',
+            variation: 'Sent',
+            payload: {},
+          }),
+        ).toEqual(
+          left([
+            {
+              path: ['name'],
+              message: 'Expected one of Text, Image, got Video',
+            },
+          ]),
+        );
+
+        expect(
+          UnionAPI.codec.decode({
+            name: 'Text',
+            variation: 'default',
+            payload: 'hello',
+          }),
+        ).toEqual(
+          left([
+            {
+              path: ['variation'],
+              message: 'Expected one of Sent, Pending, got default',
+            },
+          ]),
+        );
+      });
+
+      it('requires the payload key', () => {
+        const NoValidatorAPI = Union.of({ Empty: Union.type<undefined>() });
+
+        expect(
+          NoValidatorAPI.codec.decode({ name: 'Empty', variation: 'default' }),
+        ).toEqual(left([{ path: ['payload'], message: 'Missing payload' }]));
+        expect(
+          NoValidatorAPI.codec.decode({
+            name: 'Empty',
+            variation: 'default',
+            payload: undefined,
+          }),
+        ).toEqual(right(NoValidatorAPI.of.Empty(undefined)));
+      });
+
+      it('rejects payloads refused by the validator', () => {
+        const result = UnionAPI.codec.decode({
+          name: 'Text',
+          variation: 'Sent',
+          payload: 42,
+        });
+
+        expect(isLeft(result)).toEqual(true);
+        expect(isLeft(result) && result.left[0].path).toEqual(['payload']);
+      });
+
+      it('uses the error of decoders', () => {
+        const NumberAPI = Union.of({
+          Number: Union.type({
+            decode: (thing: unknown) =>
+              typeof thing === 'number' ? right(thing) : left('not a number'),
+          }),
+        });
+
+        expect(
+          NumberAPI.codec.decode({
+            name: 'Number',
+            variation: 'default',
+            payload: 'one',
+          }),
+        ).toEqual(
+          left([
+            {
+              path: ['payload'],
+              message: 'Payload rejected by the decoder: not a number',
+            },
+          ]),
+        );
+      });
+    });
+  });
+});
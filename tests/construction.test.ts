@@ -0,0 +1,54 @@
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('construction', () => {
+      type Text = { content: string };
+
+      const UnionAPI = Union.ofVariations({
+        Text: {
+          Sent: Union.type<Text>(),
+          Pending: Union.type<Text>(),
+        },
+        Image: {
+          Sent: Union.type<{ source: string }>(),
+        },
+      });
+
+      it('shares the guards of the members', () => {
+        expect(UnionAPI.is.Sent.Text).toBe(UnionAPI.is.Text.Sent);
+      });
+
+      it('creates the optics once, on first use', () => {
+        const descriptor = Object.getOwnPropertyDescriptor(
+          UnionAPI.Text.Pending,
+          'iso',
+        );
+
+        expect(descriptor?.get).toBeDefined();
+        expect(Object.keys(UnionAPI.Text.Pending)).toContain('iso');
+
+        const { iso } = UnionAPI.Text.Pending;
+
+        expect(UnionAPI.Text.Pending.iso).toBe(iso);
+        expect(
+          Object.getOwnPropertyDescriptor(UnionAPI.Text.Pending, 'iso')?.value,
+        ).toBe(iso);
+
+        expect(iso.get(UnionAPI.of.Text.Pending({ content: 'hello' }))).toEqual(
+          { content: 'hello' },
+        );
+      });
+
+      it('keeps the lazy optics of derived unions', () => {
+        const TextAPI = Union.omit(UnionAPI, ['Image']);
+
+        expect(
+          TextAPI.Sent.fold({
+            Text: (text) => TextAPI.Text.Sent.iso.get(text).content,
+          })(TextAPI.of.Text.Sent({ content: 'hello' })),
+        ).toEqual('hello');
+      });
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { expectType } from 'tsd';
+
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('fromDiscriminated', () => {
+      type Legacy =
+        | { id: string; kind: 'text'; content: string }
+        | { id: string; kind: 'image'; source: string; width?: number };
+
+      const LegacyAPI = Union.fromDiscriminated<Legacy>('kind', {
+        text: true,
+        image: true,
+      });
+
+      type Message = Union.Type<typeof LegacyAPI>;
+
+      const legacyText: Legacy = { id: '1', kind: 'text', content: 'hello' };
+      const text = LegacyAPI.of.text({ id: '1', content: 'hello' });
+
+      it('derives the union from the discriminant', () => {
+        expectType<
+          | Union.Opaque<'text', 'default', unknown>
+          | Union.Opaque<'image', 'default', unknown>
+        >({} as Message);
+
+        expectType<{ id: string; content: string }>(
+          LegacyAPI.text.iso.get(text),
+        );
+        expectType<{ id: string; source: string; width?: number }>(
+          LegacyAPI.image.iso.get(LegacyAPI.of.image({ id: '2', source: 'a' })),
+        );
+
+        expect(LegacyAPI.is.text(text)).toBe(true);
+        expect(
+          LegacyAPI.fold({ text: () => 'text', image: () => 'image' })(text),
+        ).toEqual('text');
+
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        Union.fromDiscriminated<Legacy>('kind', { text: true });
+      });
+
+      it('converts values to opaques and back', () => {
+        expectType<Legacy>(LegacyAPI.adapter.get(text));
+
+        const opaque = LegacyAPI.adapter.reverseGet(legacyText);
+
+        expect(LegacyAPI.equals(opaque, text)).toBe(true);
+        expect(LegacyAPI.adapter.get(opaque)).toEqual(legacyText);
+        expect(
+          LegacyAPI.adapter.get(
+            LegacyAPI.adapter.reverseGet({
+              id: '2',
+              kind: 'image',
+              source: 'a',
+            }),
+          ),
+        ).toEqual({ id: '2', kind: 'image', source: 'a' });
+      });
+
+      it('throws on unknown discriminants', () => {
+        expect(() =>
+          LegacyAPI.adapter.reverseGet({
+            id: '3',
+            kind: 'video',
+            source: 'a',
+          } as never),
+        ).toThrow(Union.UnknownMemberError);
+      });
+
+      it('takes the discriminant explicitly when there are several', () => {
+        type Event =
+          | { type: 'click'; source: 'mouse'; x: number }
+          | { type: 'press'; source: 'keyboard'; key: string };
+
+        const EventAPI = Union.fromDiscriminated<Event, 'type', 'events'>(
+          'type',
+          { click: true, press: true },
+          { namespace: 'events' },
+        );
+
+        expectType<{ source: 'mouse'; x: number }>(
+          EventAPI.click.iso.get(EventAPI.of.click({ source: 'mouse', x: 1 })),
+        );
+        expectType<Union.Opaque<'press', 'default', 'events'>>(
+          EventAPI.of.press({ source: 'keyboard', key: 'a' }),
+        );
+      });
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { uniq } from 'fp-ts/ReadonlyArray';
+
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('equality', () => {
+      type Text = { content: string; tags: string[]; sentAt: Date };
+      type Tag = string;
+
+      const UnionAPI = Union.ofVariations({
+        Text: {
+          Sent: Union.type<Text>(),
+          Pending: Union.type<Text>(),
+        },
+        Tag: {
+          Sent: Union.type<Tag>({
+            eq: { equals: (a, b) => a.toLowerCase() === b.toLowerCase() },
+          }),
+          Pending: Union.type<Tag>({
+            eq: { equals: (a, b) => a.toLowerCase() === b.toLowerCase() },
+            hash: (tag) => tag.toLowerCase().length,
+          }),
+        },
+      });
+
+      const text = () => ({
+        content: 'hello',
+        tags: ['a', 'b'],
+        sentAt: new Date(0),
+      });
+
+      it('compares payloads deeply by default', () => {
+        expect(
+          UnionAPI.equals(
+            UnionAPI.of.Text.Sent(text()),
+            UnionAPI.of.Text.Sent(text()),
+          ),
+        ).toEqual(true);
+
+        expect(
+          UnionAPI.equals(
+            UnionAPI.of.Text.Sent(text()),
+            UnionAPI.of.Text.Sent({ ...text(), tags: ['a'] }),
+          ),
+        ).toEqual(false);
+
+        expect(
+          UnionAPI.equals(
+            UnionAPI.of.Text.Sent(text()),
+            UnionAPI.of.Text.Sent({ ...text(), sentAt: new Date(1) }),
+          ),
+        ).toEqual(false);
+      });
+
+      it('compares names and variations', () => {
+        expect(
+          UnionAPI.equals(
+            UnionAPI.of.Text.Sent(text()),
+            UnionAPI.of.Text.Pending(text()),
+          ),
+        ).toEqual(false);
+
+        expect(
+          UnionAPI.equals(
+            UnionAPI.of.Tag.Sent('a'),
+            UnionAPI.of.Tag.Pending('a'),
+          ),
+        ).toEqual(false);
+      });
+
+      it('uses the eq of the member', () => {
+        expect(
+          UnionAPI.equals(UnionAPI.of.Tag.Sent('a'), UnionAPI.of.Tag.Sent('A')),
+        ).toEqual(true);
+      });
+
+      it('gives the same hash to equal opaques', () => {
+        expect(UnionAPI.hash(UnionAPI.of.Text.Sent(text()))).toEqual(
+          UnionAPI.hash(UnionAPI.of.Text.Sent(text())),
+        );
+
+        expect(UnionAPI.hash(UnionAPI.of.Text.Sent(text()))).not.toEqual(
+          UnionAPI.hash(UnionAPI.of.Text.Pending(text())),
+        );
+
+        expect(UnionAPI.hash(UnionAPI.of.Tag.Sent('a'))).toEqual(
+          UnionAPI.hash(UnionAPI.of.Tag.Sent('A')),
+        );
+
+        expect(UnionAPI.hash(UnionAPI.of.Tag.Pending('a'))).toEqual(
+          UnionAPI.hash(UnionAPI.of.Tag.Pending('A')),
+        );
+      });
+
+      it('hashes independently of the order of the keys', () => {
+        expect(
+          UnionAPI.hash(
+            UnionAPI.of.Text.Sent({
+              sentAt: new Date(0),
+              tags: ['a', 'b'],
+              content: 'hello',
+            }),
+          ),
+        ).toEqual(UnionAPI.hash(UnionAPI.of.Text.Sent(text())));
+      });
+
+      it('compares maps and sets by their entries', () => {
+        const CollectionAPI = Union.of({
+          Map: Union.type<Map<number, string[]>>(),
+          Set: Union.type<Set<string>>(),
+        });
+
+        const map = (entries: Array<[number, string[]]>) =>
+          CollectionAPI.of.Map(new Map(entries));
+        const set = (members: string[]) =>
+          CollectionAPI.of.Set(new Set(members));
+
+        expect(CollectionAPI.equals(map([[1, ['a']]]), map([]))).toEqual(false);
+        expect(
+          CollectionAPI.equals(map([[1, ['a']]]), map([[1, ['b']]])),
+        ).toEqual(false);
+        expect(
+          CollectionAPI.equals(
+            map([
+              [1, ['a']],
+              [2, []],
+            ]),
+            map([
+              [2, []],
+              [1, ['a']],
+            ]),
+          ),
+        ).toEqual(true);
+        expect(
+          CollectionAPI.hash(
+            map([
+              [1, ['a']],
+              [2, []],
+            ]),
+          ),
+        ).toEqual(
+          CollectionAPI.hash(
+            map([
+              [2, []],
+              [1, ['a']],
+            ]),
+          ),
+        );
+        expect(CollectionAPI.hash(map([[1, ['a']]]))).not.toEqual(
+          CollectionAPI.hash(map([])),
+        );
+
+        expect(CollectionAPI.equals(set(['a']), set([]))).toEqual(false);
+        expect(CollectionAPI.equals(set(['a', 'b']), set(['b', 'a']))).toEqual(
+          true,
+        );
+        expect(CollectionAPI.hash(set(['a', 'b']))).toEqual(
+          CollectionAPI.hash(set(['b', 'a'])),
+        );
+      });
+
+      it('only compares the members of the union', () => {
+        const OtherAPI = Union.ofVariations({
+          Text: { Sent: Union.type<Text>() },
+        });
+
+        expect(
+          UnionAPI.equals(
+            UnionAPI.of.Text.Sent(text()),
+            OtherAPI.of.Text.Sent(text()),
+          ),
+        ).toEqual(false);
+
+        const TextAPI = Union.pick(UnionAPI, ['Text']);
+        const tag = UnionAPI.of.Tag.Sent('a');
+
+        expect(TextAPI.equals(tag as never, tag as never)).toEqual(false);
+        expect(() => TextAPI.hash(tag as never)).toThrow(
+          Union.ForeignOpaqueError,
+        );
+        expect(() =>
+          Union.omitVariations(UnionAPI, ['Pending']).hash(
+            UnionAPI.of.Text.Pending(text()) as never,
+          ),
+        ).toThrow(Union.ForeignOpaqueError);
+      });
+
+      it('provides an fp-ts Eq', () => {
+        const messages = [
+          UnionAPI.of.Text.Sent(text()),
+          UnionAPI.of.Tag.Sent('a'),
+          UnionAPI.of.Text.Sent(text()),
+          UnionAPI.of.Tag.Sent('A'),
+        ];
+
+        expect(uniq(UnionAPI.eq)(messages)).toEqual([messages[0], messages[1]]);
+      });
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('fold', () => {
+      type Text = { content: string };
+      type Image = { source: string };
+
+      const UnionAPI = Union.ofVariations({
+        Text: {
+          Sent: Union.type<Text>(),
+          Pending: Union.type<Text>(),
+        },
+        Image: {
+          Sent: Union.type<Image>(),
+        },
+      });
+
+      const text = UnionAPI.of.Text.Pending({ content: 'hello' });
+      const image = UnionAPI.of.Image.Sent({ source: 'a.png' });
+
+      it('checks the handlers when created', () => {
+        expect(() =>
+          UnionAPI.fold(
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            { Text: () => 'text', Video: () => 'video' },
+          ),
+        ).toThrow(new Union.InvalidHandlersError(['Image'], ['Video']).message);
+
+        expect(() =>
+          UnionAPI.Text.fold(
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            { Sent: () => 'sent' },
+          ),
+        ).toThrow('Invalid fold handlers (missing: Pending)');
+
+        expect(() =>
+          UnionAPI.Sent.fold({
+            Text: () => 'text',
+            Image: () => 'image',
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            Video: () => 'video',
+          }),
+        ).toThrow('Invalid fold handlers (extra: Video)');
+      });
+
+      it('lists the missing and extra names and variations of foldAll', () => {
+        const handlers = {
+          Text: { Sent: () => 'sent', Failed: () => 'failed' },
+          Image: { Sent: () => 'image' },
+        };
+
+        try {
+          UnionAPI.foldAll(handlers as never);
+        } catch (error) {
+          expect(error).toBeInstanceOf(Union.InvalidHandlersError);
+          expect((error as Union.InvalidHandlersError).missing).toEqual([
+            'Text.Pending',
+          ]);
+          expect((error as Union.InvalidHandlersError).extra).toEqual([
+            'Text.Failed',
+          ]);
+        }
+
+        expect.assertions(4);
+
+        expect(() =>
+          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+          // @ts-expect-error
+          UnionAPI.foldAll({
+            Sent: { Text: () => 'text', Image: () => 'image' },
+          }),
+        ).toThrow('Invalid fold handlers (missing: Pending.Text)');
+      });
+
+      it('folds by variation when names are also variations', () => {
+        const StatusAPI = Union.ofVariations({
+          Sent: { Sent: Union.type<string>(), Pending: Union.type<string>() },
+          Other: { Sent: Union.type<string>() },
+        });
+
+        const foldStatus = StatusAPI.foldAll({
+          Sent: { Sent: () => 'sent sent', Other: () => 'other sent' },
+          Pending: { Sent: () => 'sent pending' },
+        });
+
+        expect(foldStatus(StatusAPI.of('Other', 'Sent', 'a'))).toEqual(
+          'other sent',
+        );
+        expect(foldStatus(StatusAPI.of('Sent', 'Pending', 'a'))).toEqual(
+          'sent pending',
+        );
+
+        const foldByName = StatusAPI.foldAll({
+          Sent: { Sent: () => 'sent sent', Pending: () => 'sent pending' },
+          Other: { Sent: () => 'other sent' },
+        });
+
+        expect(foldByName(StatusAPI.of('Other', 'Sent', 'a'))).toEqual(
+          'other sent',
+        );
+      });
+
+      it('throws on values of no member', () => {
+        const fold = UnionAPI.fold({
+          Text: () => 'text',
+          Image: () => 'image',
+        });
+
+        expect(() =>
+          fold(
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            { content: 'hello' },
+          ),
+        ).toThrow('No handler found to fold { content: "hello" }');
+
+        const foldSent = UnionAPI.Sent.fold({
+          Text: () => 'text',
+          Image: () => 'image',
+        });
+
+        expect(foldSent(image)).toEqual('image');
+        expect(() =>
+          foldSent(
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            text,
+          ),
+        ).toThrow(
+          'No handler found to fold Text.Pending({ content: "hello" })',
+        );
+
+        const foldText = UnionAPI.Text.fold({
+          Sent: () => 'sent',
+          Pending: () => 'pending',
+        });
+
+        expect(foldText(text)).toEqual('pending');
+        expect(() =>
+          foldText(
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            image,
+          ),
+        ).toThrow('No handler found to fold Image.Sent({ source: "a.png" })');
+      });
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { expectType } from 'tsd';
+
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('generic', () => {
+      const ResultAPI = Union.generic(<E, A>() =>
+        Union.of({
+          Failure: Union.type<{ error: E }>(),
+          Success: Union.type<{ value: A }>(),
+        }),
+      );
+
+      const RemoteDataAPI = Union.generic(<E, A>() =>
+        Union.ofVariations({
+          Request: {
+            NotAsked: Union.type<null>(),
+            Loading: Union.type<null>(),
+          },
+          Response: {
+            Failure: Union.type<E>(),
+            Success: Union.type<A>(),
+          },
+        }),
+      );
+
+      it('types the constructors for each instantiation', () => {
+        const NumberResultAPI = ResultAPI<string, number>();
+        const StringResultAPI = ResultAPI<string, string>();
+
+        NumberResultAPI.of.Success({ value: 1 });
+        StringResultAPI.of.Success({ value: 'one' });
+
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        NumberResultAPI.of.Success({ value: 'one' });
+
+        const UserDataAPI = RemoteDataAPI<Error, { name: string }>();
+
+        UserDataAPI.of.Response.Success({ name: 'Ada' });
+
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        UserDataAPI.of.Response.Failure('error');
+      });
+
+      it('types the accessors for each instantiation', () => {
+        const NumberResultAPI = ResultAPI<string, number>();
+
+        const success = NumberResultAPI.of.Success({ value: 1 });
+
+        expectType<{ value: number }>(NumberResultAPI.Success.iso.get(success));
+        expectType<number>(
+          NumberResultAPI.Success.lensFromProp('value').get(success),
+        );
+
+        const fold = NumberResultAPI.fold({
+          Failure: (failure) =>
+            NumberResultAPI.Failure.iso.get(failure).error.length,
+          Success: (value) => NumberResultAPI.Success.iso.get(value).value,
+        });
+
+        expect(fold(success)).toEqual(1);
+        expect(NumberResultAPI.is.Success(success)).toEqual(true);
+      });
+
+      it('creates the union once', () => {
+        expect(ResultAPI<string, number>()).toBe(ResultAPI<Error, string>());
+      });
+
+      it('shares the opaques between instantiations', () => {
+        const success = ResultAPI<string, number>().of.Success({ value: 1 });
+
+        expect(ResultAPI<string, string>().is.Success(success)).toEqual(true);
+      });
+    });
+  });
+});
@@ -1,6 +1,9 @@
+import { deserialize, serialize } from 'v8';
 import { expectType } from 'tsd';
 
-import { Lens, Iso } from 'monocle-ts';
+import { Lens, Iso, Optional, Prism } from 'monocle-ts';
+import { left, right } from 'fp-ts/Either';
+import { none, some } from 'fp-ts/Option';
 
 import * as Union from '../src/index';
 
@@ -189,6 +192,425 @@ describe('packages', () => {
       });
     });
 
+    describe('validation', () => {
+      type Text = { content: string };
+      type Image = { source: string };
+
+      const isText = (thing: unknown): thing is Text =>
+        typeof thing === 'object' &&
+        thing !== null &&
+        typeof (thing as Text).content === 'string';
+
+      const ImageDecoder = {
+        decode: (thing: unknown) =>
+          typeof thing === 'object' &&
+          thing !== null &&
+          typeof (thing as Image).source === 'string'
+            ? right(thing as Image)
+            : left('not an image'),
+      };
+
+      const types = {
+        Text: {
+          Sent: Union.type(isText),
+          Pending: Union.type({ validate: isText }),
+        },
+        Image: {
+          Sent: Union.type(ImageDecoder),
+          Pending: Union.type<Image>(),
+        },
+      };
+
+      const UnionAPI = Union.ofVariations(types);
+      const StrictUnionAPI = Union.ofVariations(types, { strict: true });
+
+      it('infers private types from validators', () => {
+        expectType<
+          Union.UnionAPIDef<
+            'Text' | 'Image',
+            'Sent' | 'Pending',
+            {
+              Text: { Sent: Text; Pending: Text };
+              Image: { Sent: Image; Pending: Image };
+            }
+          >
+        >(UnionAPI);
+      });
+
+      it('checks payloads in type guards', () => {
+        const text = UnionAPI.of.Text.Sent({ content: 'hello' });
+        const invalidText = UnionAPI.of.Text.Sent({
+          content: 42,
+        } as unknown as Text);
+        const image = UnionAPI.of.Image.Sent({ source: 'http://' });
+        const invalidImage = UnionAPI.of.Image.Sent({} as unknown as Image);
+
+        expect(UnionAPI.is(text)).toEqual(true);
+        expect(UnionAPI.is(invalidText)).toEqual(false);
+        expect(UnionAPI.is.Text(invalidText)).toEqual(false);
+        expect(UnionAPI.is.Text.Sent(invalidText)).toEqual(false);
+        expect(UnionAPI.is.Sent(invalidText)).toEqual(false);
+        expect(UnionAPI.is.Sent.Text(invalidText)).toEqual(false);
+
+        expect(UnionAPI.is.Image(image)).toEqual(true);
+        expect(UnionAPI.is.Image(invalidImage)).toEqual(false);
+      });
+
+      it('accepts any payload without validator', () => {
+        const image = UnionAPI.of.Image.Pending({} as unknown as Image);
+
+        expect(UnionAPI.is.Image.Pending(image)).toEqual(true);
+      });
+
+      it('throws in strict mode', () => {
+        const text = StrictUnionAPI.of.Text.Sent({ content: 'hello' });
+
+        expect(StrictUnionAPI.is.Text.Sent(text)).toEqual(true);
+
+        const invalid = { content: 42 } as unknown as Text;
+
+        expect(() => StrictUnionAPI.of.Text.Pending(invalid)).toThrow(
+          Union.InvalidPayloadError,
+        );
+        expect(() => StrictUnionAPI.of('Text', 'Sent', invalid)).toThrow(
+          'Invalid payload for member "Text" with variation "Sent"',
+        );
+        expect(() => StrictUnionAPI.of.Pending.Text(invalid)).toThrow(
+          Union.UnionError,
+        );
+        expect(() => StrictUnionAPI.Text.Sent.iso.reverseGet(invalid)).toThrow(
+          Union.InvalidPayloadError,
+        );
+      });
+
+      it('keeps strict mode in derived unions', () => {
+        const invalid = { content: 42 } as unknown as Text;
+
+        expect(() =>
+          Union.omit(StrictUnionAPI, ['Image']).of.Text.Sent(invalid),
+        ).toThrow(Union.InvalidPayloadError);
+        expect(() =>
+          Union.omitVariations(StrictUnionAPI, ['Pending']).of.Text.Sent(
+            invalid,
+          ),
+        ).toThrow(Union.InvalidPayloadError);
+      });
+    });
+
+    describe('brand', () => {
+      type Text = { content: string };
+
+      const ChatAPI = Union.of({ Text: Union.type<Text>() });
+      const MailAPI = Union.of({ Text: Union.type<Text>() });
+
+      const NamespacedChatAPI = Union.of(
+        { Text: Union.type<Text>() },
+        { namespace: 'Chat' },
+      );
+      const NamespacedMailAPI = Union.of(
+        { Text: Union.type<Text>() },
+        { namespace: 'Mail' },
+      );
+
+      it('does not accept opaques of another union', () => {
+        const chatText = ChatAPI.of.Text({ content: 'hello' });
+
+        expect(ChatAPI.is(chatText)).toEqual(true);
+        expect(MailAPI.is(chatText)).toEqual(false);
+        expect(MailAPI.is.Text(chatText)).toEqual(false);
+        expect(MailAPI.is.default.Text(chatText)).toEqual(false);
+
+        expect(() =>
+          MailAPI.fold({
+            Text: () => 'text',
+          })(chatText),
+        ).toThrow();
+
+        expect(() => MailAPI.Text.iso.get(chatText)).toThrow(
+          Union.ForeignOpaqueError,
+        );
+        expect(() => MailAPI.iso.get(chatText)).toThrow(
+          'Opaque "Text" with variation "default" does not belong to this union',
+        );
+        expect(() => MailAPI.lensFromProp('content').get(chatText)).toThrow(
+          Union.ForeignOpaqueError,
+        );
+      });
+
+      it('keeps opaques serializable', () => {
+        const chatText = ChatAPI.of.Text({ content: 'hello' });
+
+        // the structured clone algorithm of structuredClone and postMessage
+        const cloned = deserialize(serialize(chatText));
+
+        expect(ChatAPI.is.Text(cloned)).toEqual(true);
+        expect(MailAPI.is.Text(cloned)).toEqual(false);
+        expect(ChatAPI.is.Text(JSON.parse(JSON.stringify(chatText)))).toEqual(
+          true,
+        );
+      });
+
+      it('brands opaques at the type level with a namespace', () => {
+        const chatText = NamespacedChatAPI.of.Text({ content: 'hello' });
+
+        expectType<Union.Opaque<'Text', 'default', 'Chat'>>(chatText);
+
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        expect(NamespacedMailAPI.is.Text(chatText)).toEqual(false);
+
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        expect(() => NamespacedMailAPI.Text.iso.get(chatText)).toThrow(
+          Union.ForeignOpaqueError,
+        );
+
+        expectType<Union.Opaque<'Text', 'default', 'Chat'>>(
+          NamespacedChatAPI.Text.iso.reverseGet({ content: 'hello' }),
+        );
+      });
+
+      it('considers unions with the same namespace compatible', () => {
+        const OtherChatAPI = Union.of(
+          { Text: Union.type<Text>() },
+          { namespace: 'Chat' },
+        );
+
+        const chatText = NamespacedChatAPI.of.Text({ content: 'hello' });
+
+        expect(OtherChatAPI.is.Text(chatText)).toEqual(true);
+      });
+
+      it('keeps the brand in unions derived with omit, pick or omitVariations', () => {
+        const MessageAPI = Union.ofVariations(
+          {
+            Text: { Sent: Union.type<Text>(), Pending: Union.type<Text>() },
+            Image: { Sent: Union.type<Text>(), Pending: Union.type<Text>() },
+          },
+          { namespace: 'Message' },
+        );
+
+        const text = MessageAPI.of.Text.Sent({ content: 'hello' });
+
+        const TextAPI = Union.pick(MessageAPI, ['Text']);
+        const ImageAPI = Union.omit(MessageAPI, ['Text']);
+        const SentAPI = Union.omitVariations(MessageAPI, ['Pending']);
+
+        expectType<Union.Opaque<'Text', 'Sent', 'Message'>>(
+          TextAPI.of.Text.Sent({ content: 'hello' }),
+        );
+
+        expect(TextAPI.is(text)).toEqual(true);
+        expect(SentAPI.is(text)).toEqual(true);
+        expect(ImageAPI.is(text)).toEqual(false);
+
+        expect(
+          MessageAPI.is(TextAPI.of.Text.Sent({ content: 'hello' })),
+        ).toEqual(true);
+      });
+
+      it('keeps the brand of each member in merged unions', () => {
+        const ImageAPI = Union.of(
+          { Image: Union.type<Text>() },
+          { namespace: 'Image' },
+        );
+
+        const MergedAPI = Union.merge(NamespacedChatAPI, ImageAPI);
+
+        const chatText = NamespacedChatAPI.of.Text({ content: 'hello' });
+        const image = MergedAPI.of.Image({ content: 'hello' });
+
+        expectType<Union.Opaque<'Image', 'default', 'Chat' | 'Image'>>(image);
+
+        expect(MergedAPI.is.Text(chatText)).toEqual(true);
+        expect(ImageAPI.is(image)).toEqual(true);
+        expect(NamespacedChatAPI.is(image)).toEqual(false);
+      });
+
+      it('creates a new brand when rebuilding a union from its types', () => {
+        const OtherChatAPI = Union.ofVariations(ChatAPI.types);
+
+        expect(OtherChatAPI.is(ChatAPI.of.Text({ content: 'hello' }))).toEqual(
+          false,
+        );
+      });
+    });
+
+    describe('per member variations', () => {
+      type Text = { content: string };
+      type Video = { source: string };
+
+      const MessageAPI = Union.ofVariations({
+        Text: {
+          Sent: Union.type<Text>(),
+          Pending: Union.type<Text>(),
+        },
+        Video: {
+          Uploading: Union.type<Video>(),
+          Ready: Union.type<Video>(),
+          Failed: Union.type<Video>(),
+        },
+      });
+
+      type Message = Union.Type<typeof MessageAPI>;
+
+      it('only has the variations of each member', () => {
+        expectType<
+          | Union.Opaque<'Text', 'Sent'>
+          | Union.Opaque<'Text', 'Pending'>
+          | Union.Opaque<'Video', 'Uploading'>
+          | Union.Opaque<'Video', 'Ready'>
+          | Union.Opaque<'Video', 'Failed'>
+        >({} as Message);
+
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        expectType<Message>({} as Union.Opaque<'Text', 'Ready'>);
+
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        expect(MessageAPI.of.Text.Ready).toEqual(undefined);
+
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        expect(MessageAPI.of.Ready.Text).toEqual(undefined);
+
+        expect(() =>
+          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+          // @ts-expect-error
+          MessageAPI.of('Text', 'Ready', { content: 'hello' }),
+        ).toThrow(Union.UnknownMemberError);
+      });
+
+      it('creates and guards each member', () => {
+        const text = MessageAPI.of.Text.Sent({ content: 'hello' });
+        const video = MessageAPI.of.Ready.Video({ source: 'http://' });
+
+        expectType<Union.Opaque<'Video', 'Ready'>>(video);
+
+        expect(MessageAPI.is(text)).toEqual(true);
+        expect(MessageAPI.is(video)).toEqual(true);
+        expect(MessageAPI.is.Video(video)).toEqual(true);
+        expect(MessageAPI.is.Video.Ready(video)).toEqual(true);
+        expect(MessageAPI.is.Ready(video)).toEqual(true);
+        expect(MessageAPI.is.Ready(text)).toEqual(false);
+        expect(MessageAPI.is.Sent.Text(text)).toEqual(true);
+
+        expect(MessageAPI.Video.Ready.iso.get(video)).toEqual({
+          source: 'http://',
+        });
+        expect(MessageAPI.Ready.iso.get(video)).toEqual({
+          _tag: 'Video',
+          _variation: 'Ready',
+          source: 'http://',
+        });
+      });
+
+      it('rejects variations of other members at runtime', () => {
+        expect(() =>
+          MessageAPI.of(
+            'Text',
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            'Ready',
+            { content: 'hello' },
+          ),
+        ).toThrow(
+          'Unknown variation "Ready" of member "Text" (variations: Sent, Pending)',
+        );
+
+        const UncheckedAPI = Union.ofVariations(MessageAPI.types, {
+          checks: false,
+        });
+
+        const forged = UncheckedAPI.of(
+          'Text',
+          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+          // @ts-expect-error
+          'Ready',
+          { content: 'hello' },
+        );
+
+        expect(UncheckedAPI.is(forged)).toEqual(false);
+        expect(UncheckedAPI.is.Text(forged)).toEqual(false);
+
+        expect(
+          MessageAPI.codec.decode({
+            name: 'Text',
+            variation: 'Ready',
+            payload: { content: 'hello' },
+          }),
+        ).toEqual(
+          left([
+            {
+              path: ['variation'],
+              message: 'Expected one of Sent, Pending, got Ready',
+            },
+          ]),
+        );
+      });
+
+      it('folds over each member variations', () => {
+        const fold = MessageAPI.foldAll({
+          Text: {
+            Sent: () => 'sent',
+            Pending: () => 'pending',
+          },
+          Video: {
+            Uploading: () => 'uploading',
+            Ready: () => 'ready',
+            Failed: () => 'failed',
+          },
+        });
+
+        expect(fold(MessageAPI.of.Video.Failed({ source: 'http://' }))).toEqual(
+          'failed',
+        );
+        expect(
+          MessageAPI.Video.fold({
+            Uploading: () => 'uploading',
+            Ready: () => 'ready',
+            Failed: () => 'failed',
+          })(MessageAPI.of.Video.Ready({ source: 'http://' })),
+        ).toEqual('ready');
+      });
+
+      it('filters types by variation', () => {
+        type Failed = Union.Type<typeof MessageAPI, 'Failed'>;
+
+        expectType<Failed>({} as Union.Opaque<'Video', 'Failed'>);
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        expectType<Failed>({} as Union.Opaque<'Text', 'Sent'>);
+      });
+
+      it('omits variations of some members only', () => {
+        const DoneAPI = Union.omitVariations(MessageAPI, [
+          'Pending',
+          'Uploading',
+        ]);
+
+        type Done = Union.Type<typeof DoneAPI>;
+
+        expectType<
+          | Union.Opaque<'Text', 'Sent'>
+          | Union.Opaque<'Video', 'Ready'>
+          | Union.Opaque<'Video', 'Failed'>
+        >({} as Done);
+
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        expectType<Done>({} as Union.Opaque<'Video', 'Uploading'>);
+
+        expect(DoneAPI.is(MessageAPI.of.Video.Ready({ source: '' }))).toEqual(
+          true,
+        );
+        expect(
+          DoneAPI.is(MessageAPI.of.Video.Uploading({ source: '' })),
+        ).toEqual(false);
+      });
+    });
+
     describe('union api', () => {
       type One = { value: 'one' };
       type Two = { value: 'two' };
@@ -466,6 +888,185 @@ describe('packages', () => {
         });
       });
 
+      describe('foldAll', () => {
+        it('folds by name then variation', () => {
+          const foldAll = UnionAPI.foldAll({
+            One: {
+              var1: (opaque) => {
+                expectType<Union.Opaque<'One', 'var1'>>(opaque);
+
+                return 'one1';
+              },
+              var2: () => 'one2',
+            },
+            Two: {
+              var1: () => 'two1',
+              var2: (opaque) => {
+                expectType<Union.Opaque<'Two', 'var2'>>(opaque);
+
+                return 'two2';
+              },
+            },
+          });
+
+          expect(foldAll(UnionAPI.of.One.var1({ value: 'one' }))).toEqual(
+            'one1',
+          );
+          expect(foldAll(UnionAPI.of.Two.var2({ value: 'two' }))).toEqual(
+            'two2',
+          );
+        });
+
+        it('folds by variation then name', () => {
+          const foldAll = UnionAPI.foldAll({
+            var1: {
+              One: () => 'one1',
+              Two: () => 'two1',
+            },
+            var2: {
+              One: () => 'one2',
+              Two: (opaque) => {
+                expectType<Union.Opaque<'Two', 'var2'>>(opaque);
+
+                return 'two2';
+              },
+            },
+          });
+
+          expect(foldAll(UnionAPI.of.One.var1({ value: 'one' }))).toEqual(
+            'one1',
+          );
+          expect(foldAll(UnionAPI.of.Two.var2({ value: 'two' }))).toEqual(
+            'two2',
+          );
+        });
+
+        it('is exhaustive in both dimensions', () => {
+          expect(() =>
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            UnionAPI.foldAll({
+              One: { var1: () => 'one1', var2: () => 'one2' },
+              Two: { var1: () => 'two1' },
+            }),
+          ).toThrow(Union.InvalidHandlersError);
+
+          expect(() =>
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            UnionAPI.foldAll({
+              var1: { One: () => 'one1', Two: () => 'two1' },
+            }),
+          ).toThrow(Union.InvalidHandlersError);
+        });
+
+        it('throws on values out of the union', () => {
+          const foldAll = UnionAPIVar1.foldAll({
+            One: { var1: () => 'one1' },
+            Two: { var1: () => 'two1' },
+          });
+
+          expect(() =>
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            foldAll(UnionAPI.of.One.var2({ value: 'one' })),
+          ).toThrow(Union.UnionError);
+        });
+      });
+
+      describe('match', () => {
+        it('is present globally', () => {
+          const one = UnionAPI.of.One.var1({ value: 'one' });
+          const two = UnionAPI.of.Two.var2({ value: 'two' });
+
+          const matchOne = UnionAPI.match({
+            One: (opaque) => UnionAPI.lensFromProp('value').get(opaque),
+            _: (opaque) => {
+              expectType<
+                Union.Opaque<'Two', 'var1'> | Union.Opaque<'Two', 'var2'>
+              >(opaque);
+
+              return 'other';
+            },
+          });
+
+          expect(matchOne(one)).toEqual('one');
+          expect(matchOne(two)).toEqual('other');
+        });
+
+        it('only requires the fallback', () => {
+          const one = UnionAPI.of.One.var1({ value: 'one' });
+
+          expect(UnionAPI.match({ _: () => 'fallback' })(one)).toEqual(
+            'fallback',
+          );
+        });
+
+        it('requires the fallback', () => {
+          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+          // @ts-expect-error
+          UnionAPI.match({
+            One: () => 'one',
+          });
+        });
+
+        it('narrows the fallback to the members without handler', () => {
+          UnionAPI.match({
+            One: () => 'one',
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            _: (_: Union.Opaque<'One', 'var1'>) => 'other',
+          });
+        });
+
+        it('is present for each type', () => {
+          const one = UnionAPI.of.One.var2({ value: 'one' });
+
+          const result = UnionAPI.One.match({
+            var1: () => 'var1',
+            _: (opaque) => {
+              expectType<Union.Opaque<'One', 'var2'>>(opaque);
+
+              return 'other';
+            },
+          })(one);
+
+          expect(result).toEqual('other');
+        });
+
+        it('is present for each variation', () => {
+          const one = UnionAPI.of.One.var1({ value: 'one' });
+          const two = UnionAPI.of.Two.var1({ value: 'two' });
+
+          const match = UnionAPI.var1.match({
+            Two: () => 'two',
+            _: () => 'other',
+          });
+
+          expect(match(one)).toEqual('other');
+          expect(match(two)).toEqual('two');
+        });
+
+        it('only runs the handlers of the members it covers', () => {
+          const twoVar1 = UnionAPI.of.Two.var1({ value: 'two' });
+          const twoVar2 = UnionAPI.of.Two.var2({ value: 'two' });
+
+          expect(
+            UnionAPI.One.match({
+              var1: () => 'var1',
+              _: () => 'other',
+            })(twoVar1 as never),
+          ).toEqual('other');
+          expect(
+            UnionAPI.var1.match({
+              Two: () => 'two',
+              _: () => 'other',
+            })(twoVar2 as never),
+          ).toEqual('other');
+        });
+      });
+
       describe('iso', () => {
         it('is present globally', () => {
           expectType<
@@ -702,6 +1303,192 @@ describe('packages', () => {
           expect(value).toEqual('one');
         });
       });
+
+      describe('prism', () => {
+        it('is present for default variation', () => {
+          const prism = SimpleUnionAPI.One.prism;
+          expectType<
+            Prism<Union.Opaques<'One' | 'Two', 'default'>, { value: 'one' }>
+          >(prism);
+
+          const one = SimpleUnionAPI.of.One({ value: 'one' });
+          const two = SimpleUnionAPI.of.Two({ value: 'two' });
+
+          expect(prism.getOption(one)).toEqual(some({ value: 'one' }));
+          expect(prism.getOption(two)).toEqual(none);
+          expect(prism.reverseGet({ value: 'one' })).toEqual(one);
+        });
+
+        it('is present for each variation for each type', () => {
+          const one1 = UnionAPI.of.One.var1({ value: 'one' });
+          const one2 = UnionAPI.of.One.var2({ value: 'one' });
+
+          expect(UnionAPI.One.var1.prism.getOption(one1)).toEqual(
+            some({ value: 'one' }),
+          );
+          expect(UnionAPI.One.var1.prism.getOption(one2)).toEqual(none);
+          expect(UnionAPI.var2.One.prism.getOption(one2)).toEqual(
+            some({ value: 'one' }),
+          );
+          expect(UnionAPI.var2.Two.prism.getOption(one2)).toEqual(none);
+
+          expect(UnionAPI.var2.One.prism.reverseGet({ value: 'one' })).toEqual(
+            one2,
+          );
+        });
+
+        it('has no iso, prism nor lensFromProp without default variation', () => {
+          expect(Object.keys(UnionAPI.One)).not.toContain('iso');
+          expect(Object.keys(UnionAPI.One)).not.toContain('prism');
+          expect(Object.keys(UnionAPI.One)).not.toContain('lensFromProp');
+          expect(Object.keys(SimpleUnionAPI.One)).toContain('iso');
+          expect(Object.keys(SimpleUnionAPI.One)).toContain('prism');
+        });
+
+        it('modifies only the focused member', () => {
+          const one = UnionAPI.of.One.var1({ value: 'one' });
+          const two = UnionAPI.of.Two.var1({ value: 'two' });
+          const newOne = UnionAPI.of.One.var1({ value: 'one' });
+
+          const modify = UnionAPI.One.var1.prism.modify(() => ({
+            value: 'one' as const,
+          }));
+
+          expect(modify(two)).toBe(two);
+          expect(modify(one)).toEqual(newOne);
+          expect(modify(one)).not.toBe(one);
+        });
+      });
+
+      describe('optional', () => {
+        it('is present for each type on any variation', () => {
+          const optional = UnionAPI.One.optional;
+          expectType<Optional<UnionType, One>>(optional);
+
+          const one1 = UnionAPI.of.One.var1({ value: 'one' });
+          const one2 = UnionAPI.of.One.var2({ value: 'one' });
+          const two = UnionAPI.of.Two.var2({ value: 'two' });
+
+          expect(optional.getOption(one1)).toEqual(some({ value: 'one' }));
+          expect(optional.getOption(one2)).toEqual(some({ value: 'one' }));
+          expect(optional.getOption(two)).toEqual(none);
+
+          const modified = optional.set({ value: 'one' })(one2);
+
+          expect(UnionAPI.equals(modified, one2)).toBe(true);
+          expect(modified).not.toBe(one2);
+          expect(optional.set({ value: 'one' })(two)).toBe(two);
+        });
+
+        it('keeps the variation in composed optics', () => {
+          const one2 = UnionAPI.of.One.var2({ value: 'one' });
+
+          const modified = UnionAPI.One.optional
+            .composeLens(Lens.fromProp<One>()('value'))
+            .set('one')(one2);
+
+          expect(UnionAPI.var2.One.prism.getOption(modified)).toEqual(
+            some({ value: 'one' }),
+          );
+          expect(UnionAPI.equals(modified, one2)).toBe(true);
+        });
+      });
+
+      describe('optionalFromProp', () => {
+        type Image = { source: string };
+        type Video = { source: string; autoplay: boolean };
+        type Text = string;
+
+        const MediaAPI = Union.ofVariations({
+          Image: { Sent: Union.type<Image>(), Pending: Union.type<Image>() },
+          Video: { Sent: Union.type<Video>(), Pending: Union.type<Video>() },
+          Text: { Sent: Union.type<Text>(), Pending: Union.type<Text>() },
+        });
+
+        it('is present globally', () => {
+          const optional = MediaAPI.optionalFromProp('autoplay');
+          expectType<
+            Optional<
+              Union.Opaques<
+                'Image' | 'Video' | 'Text',
+                'Sent' | 'Pending',
+                unknown
+              >,
+              boolean
+            >
+          >(optional);
+
+          const image = MediaAPI.of.Image.Sent({ source: 'a' });
+          const video = MediaAPI.of.Video.Pending({
+            source: 'a',
+            autoplay: true,
+          });
+          const text = MediaAPI.of.Text.Sent('hello');
+
+          expect(optional.getOption(video)).toEqual(some(true));
+          expect(optional.getOption(image)).toEqual(none);
+          expect(optional.getOption(text)).toEqual(none);
+        });
+
+        it('sets the property only when present', () => {
+          const optional = MediaAPI.optionalFromProp('autoplay');
+
+          const image = MediaAPI.of.Image.Sent({ source: 'a' });
+          const video = MediaAPI.of.Video.Pending({
+            source: 'a',
+            autoplay: true,
+          });
+
+          const newVideo = optional.set(false)(video);
+
+          expect(newVideo).toEqual(
+            MediaAPI.of.Video.Pending({ source: 'a', autoplay: false }),
+          );
+          expect(optional.getOption(newVideo)).toEqual(some(false));
+          expect(optional.getOption(video)).toEqual(some(true));
+          expect(optional.set(false)(image)).toBe(image);
+        });
+
+        it('is present for each variation', () => {
+          const optional = MediaAPI.Sent.optionalFromProp('source');
+          expectType<
+            Optional<
+              Union.Opaques<'Image' | 'Video' | 'Text', 'Sent', unknown>,
+              string
+            >
+          >(optional);
+
+          const image = MediaAPI.of.Image.Sent({ source: 'a' });
+
+          expect(optional.getOption(image)).toEqual(some('a'));
+        });
+
+        it('only focuses on own properties of plain objects', () => {
+          const ListAPI = Union.of({
+            List: Union.type<string[]>(),
+            Item: Union.type<{ length: number }>(),
+          });
+
+          const list = ListAPI.of.List(['a']);
+          const item = ListAPI.of.Item({ length: 1 });
+          const optional = ListAPI.optionalFromProp('length');
+
+          expect(optional.getOption(list)).toEqual(none);
+          expect(optional.set(5)(list)).toBe(list);
+          expect(optional.getOption(item)).toEqual(some(1));
+          expect(
+            MediaAPI.optionalFromProp('source').getOption(
+              MediaAPI.of.Image.Sent(Object.create({ source: 'a' })),
+            ),
+          ).toEqual(none);
+        });
+
+        it('rejects properties of no member', () => {
+          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+          // @ts-expect-error
+          MediaAPI.optionalFromProp('unknown');
+        });
+      });
     });
   });
 });
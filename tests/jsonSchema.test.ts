@@ -0,0 +1,105 @@
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('toJSONSchema', () => {
+      type Text = { content: string };
+      type Image = { source: string };
+
+      const TextSchema = {
+        type: 'object',
+        properties: { content: { type: 'string' } },
+        required: ['content'],
+      };
+
+      const ImageSchema = {
+        type: 'object',
+        properties: { source: { type: 'string' } },
+        required: ['source'],
+      };
+
+      const UnionAPI = Union.ofVariations({
+        Text: {
+          Sent: Union.type<Text>({ schema: TextSchema }),
+          Pending: Union.type<Text>({ schema: TextSchema }),
+        },
+        Image: {
+          Sent: Union.type<Image>({ schema: ImageSchema }),
+        },
+      });
+
+      const memberSchema = (
+        name: string,
+        variation: string,
+        payload: Union.JSONSchema,
+      ) => ({
+        type: 'object',
+        properties: {
+          name: { const: name },
+          variation: { const: variation },
+          payload,
+        },
+        required: ['name', 'variation', 'payload'],
+        additionalProperties: false,
+      });
+
+      it('describes every name and variation', () => {
+        expect(UnionAPI.toJSONSchema()).toEqual({
+          oneOf: [
+            memberSchema('Text', 'Sent', TextSchema),
+            memberSchema('Text', 'Pending', TextSchema),
+            memberSchema('Image', 'Sent', ImageSchema),
+          ],
+        });
+      });
+
+      it('describes the encoded opaques', () => {
+        const encoded = UnionAPI.codec.encode(
+          UnionAPI.of.Text.Pending({ content: 'hello' }),
+        );
+        const { oneOf } = UnionAPI.toJSONSchema() as {
+          oneOf: ReadonlyArray<unknown>;
+        };
+
+        expect(Object.keys(encoded)).toEqual(['name', 'variation', 'payload']);
+        expect(oneOf[1]).toEqual(
+          memberSchema(encoded.name, encoded.variation, TextSchema),
+        );
+      });
+
+      it('follows the derived unions', () => {
+        expect(Union.pick(UnionAPI, ['Image']).toJSONSchema()).toEqual({
+          oneOf: [memberSchema('Image', 'Sent', ImageSchema)],
+        });
+        expect(Union.omit(UnionAPI, ['Image']).toJSONSchema()).toEqual({
+          oneOf: [
+            memberSchema('Text', 'Sent', TextSchema),
+            memberSchema('Text', 'Pending', TextSchema),
+          ],
+        });
+        expect(
+          Union.omitVariations(UnionAPI, ['Pending']).toJSONSchema(),
+        ).toEqual({
+          oneOf: [
+            memberSchema('Text', 'Sent', TextSchema),
+            memberSchema('Image', 'Sent', ImageSchema),
+          ],
+        });
+      });
+
+      it('accepts any payload of members without schema', () => {
+        const MediaAPI = Union.of({
+          Image: Union.type<Image>({ schema: ImageSchema }),
+          Video: Union.type<string>(),
+        });
+
+        expect(MediaAPI.toJSONSchema()).toEqual({
+          oneOf: [
+            memberSchema('Image', 'default', ImageSchema),
+            memberSchema('Video', 'default', {}),
+          ],
+        });
+      });
+    });
+  });
+});
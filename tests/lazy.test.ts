@@ -0,0 +1,88 @@
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('lazy', () => {
+      type Text = { content: string };
+      type Image = { source: string };
+
+      const types = {
+        Text: {
+          Sent: Union.type<Text>(),
+          Pending: Union.type<Text>(),
+        },
+        Image: {
+          Sent: Union.type<Image>(),
+        },
+      };
+
+      const transitions = { Pending: ['Sent'] } as const;
+
+      const EagerAPI = Union.ofVariations(types, { transitions });
+      const LazyAPI = Union.ofVariations(types, { transitions, lazy: true });
+
+      const isLazy = (object: object, key: string) =>
+        Object.getOwnPropertyDescriptor(object, key)?.get !== undefined;
+
+      it('has the same keys', () => {
+        expect(Object.keys(LazyAPI)).toEqual(Object.keys(EagerAPI));
+        expect(Object.keys(LazyAPI.types)).toEqual(Object.keys(EagerAPI.types));
+        expect(Object.keys(LazyAPI.of)).toEqual(Object.keys(EagerAPI.of));
+        expect(Object.keys(LazyAPI.is)).toEqual(Object.keys(EagerAPI.is));
+        expect('Text' in LazyAPI).toEqual(true);
+      });
+
+      it('creates the accessors on first access', () => {
+        const API = Union.ofVariations(types, { lazy: true });
+
+        expect(isLazy(API, 'Text')).toEqual(true);
+        expect(isLazy(API.of, 'Image')).toEqual(true);
+        expect(isLazy(API.is, 'Sent')).toEqual(true);
+
+        const { Text } = API;
+
+        expect(isLazy(API, 'Text')).toEqual(false);
+        expect(API.Text).toBe(Text);
+
+        const image = API.of.Image.Sent({ source: 'a.png' });
+
+        expect(isLazy(API.of, 'Image')).toEqual(false);
+        expect(API.is.Sent(image)).toEqual(true);
+        expect(isLazy(API.is, 'Sent')).toEqual(false);
+      });
+
+      it('behaves as the eager union', () => {
+        const text = LazyAPI.of.Text.Pending({ content: 'hello' });
+
+        expect(LazyAPI.show(text)).toEqual(
+          EagerAPI.show(EagerAPI.of.Text.Pending({ content: 'hello' })),
+        );
+        expect(LazyAPI.is.Text.Pending(text)).toEqual(true);
+        expect(LazyAPI.is.Sent(text)).toEqual(false);
+        expect(LazyAPI.Text.Pending.iso.get(text)).toEqual({
+          content: 'hello',
+        });
+        expect(LazyAPI.Pending.iso.get(text)).toEqual({
+          _tag: 'Text',
+          _variation: 'Pending',
+          content: 'hello',
+        });
+        expect(
+          LazyAPI.fold({ Text: () => 'text', Image: () => 'image' })(text),
+        ).toEqual('text');
+        expect(
+          LazyAPI.Text.transition.Pending.Sent(text, (payload) => payload),
+        ).toEqual(LazyAPI.of.Text.Sent({ content: 'hello' }));
+      });
+
+      it('is kept by derived unions', () => {
+        const TextAPI = Union.omit(LazyAPI, ['Image']);
+
+        expect(isLazy(TextAPI, 'Text')).toEqual(true);
+        expect(TextAPI.is(TextAPI.of.Text.Sent({ content: 'hello' }))).toEqual(
+          true,
+        );
+      });
+    });
+  });
+});
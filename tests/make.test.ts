@@ -0,0 +1,140 @@
+import { Either, left, right } from 'fp-ts/Either';
+import { expectType } from 'tsd';
+
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('make', () => {
+      type Text = { content: string; author: { name: string } };
+      type Image = { source: string };
+
+      // same shape as an io-ts codec
+      const TextDecoder = {
+        decode: (
+          thing: unknown,
+        ): Either<
+          Array<{ context: Array<{ key: string }>; message?: string }>,
+          Text
+        > => {
+          const { content, author } = (thing ?? {}) as {
+            [key: string]: { [key: string]: unknown };
+          };
+
+          const errors = [
+            ...(typeof content === 'string'
+              ? []
+              : [{ context: [{ key: '' }, { key: 'content' }] }]),
+            ...(typeof author?.name === 'string'
+              ? []
+              : [
+                  {
+                    context: [{ key: '' }, { key: 'author' }, { key: 'name' }],
+                    message: 'Expected a name',
+                  },
+                ]),
+          ];
+
+          return errors.length > 0 ? left(errors) : right(thing as Text);
+        },
+      };
+
+      const isImage = (thing: unknown): thing is Image =>
+        typeof thing === 'object' &&
+        thing !== null &&
+        typeof (thing as Image).source === 'string';
+
+      const UnionAPI = Union.ofVariations({
+        Text: {
+          Sent: Union.type<Text>(TextDecoder),
+          Pending: Union.type<Text>(TextDecoder),
+        },
+        Image: {
+          Sent: Union.type<Image>(isImage),
+        },
+      });
+
+      const raw = { content: 'hello', author: { name: 'Ada' } };
+
+      it('creates opaques from valid values', () => {
+        const result = UnionAPI.make('Text', 'Sent', raw);
+
+        expectType<
+          Either<
+            ReadonlyArray<Union.ValidationError>,
+            Union.Opaque<'Text', 'Sent', unknown>
+          >
+        >(result);
+
+        expect(result).toEqual(right(UnionAPI.of.Text.Sent(raw)));
+      });
+
+      it('mirrors the shapes of of', () => {
+        const expected = right(UnionAPI.of.Text.Sent(raw));
+
+        expect(UnionAPI.make.Text('Sent', raw)).toEqual(expected);
+        expect(UnionAPI.make.Text.Sent(raw)).toEqual(expected);
+        expect(UnionAPI.make.Sent('Text', raw)).toEqual(expected);
+        expect(UnionAPI.make.Sent.Text(raw)).toEqual(expected);
+
+        const SimpleAPI = Union.of({ Image: Union.type<Image>(isImage) });
+
+        expect(SimpleAPI.make.Image({ source: 'a.png' })).toEqual(
+          right(SimpleAPI.of.Image({ source: 'a.png' })),
+        );
+
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        expect(UnionAPI.make.Image.Pending).toEqual(undefined);
+      });
+
+      it('accumulates the errors with their paths', () => {
+        expect(UnionAPI.make.Text.Sent({ author: {} })).toEqual(
+          left([
+            { path: ['content'], message: 'Invalid value' },
+            { path: ['author', 'name'], message: 'Expected a name' },
+          ]),
+        );
+      });
+
+      it('describes the values rejected by a guard', () => {
+        expect(UnionAPI.make.Image.Sent({})).toEqual(
+          left([{ path: [], message: 'Payload rejected by the validator' }]),
+        );
+      });
+
+      it('rejects unknown members', () => {
+        expect(
+          UnionAPI.make(
+            'Image',
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            'Pending',
+            { source: 'a.png' },
+          ),
+        ).toEqual(
+          left([
+            {
+              path: [],
+              message: 'Unknown member "Image" with variation "Pending"',
+            },
+          ]),
+        );
+      });
+
+      it('adds the decoder paths to the codec errors', () => {
+        const result = UnionAPI.codec.decode({
+          name: 'Text',
+          variation: 'Sent',
+          payload: { content: 'hello', author: {} },
+        });
+
+        expect(result).toEqual(
+          left([
+            { path: ['payload', 'author', 'name'], message: 'Expected a name' },
+          ]),
+        );
+      });
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { expectType } from 'tsd';
+
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('mapTo', () => {
+      type Text = { content: string };
+      type ImageV1 = { source: string };
+      type ImageV2 = { source: string; alt: string };
+
+      const MessageV1API = Union.ofVariations({
+        Text: {
+          Pending: Union.type<Text>(),
+          Sent: Union.type<Text>(),
+        },
+        Image: {
+          Sent: Union.type<ImageV1>(),
+        },
+        Sticker: {
+          Sent: Union.type<ImageV1>(),
+        },
+      });
+
+      const MessageV2API = Union.ofVariations({
+        Text: {
+          Pending: Union.type<Text>(),
+          Sent: Union.type<Text>(),
+          Failed: Union.type<Text>(),
+        },
+        Image: {
+          Sent: Union.type<ImageV2>(),
+        },
+      });
+
+      type MessageV1 = Union.Type<typeof MessageV1API>;
+      type MessageV2 = Union.Type<typeof MessageV2API>;
+
+      const toV2 = Union.mapTo(MessageV1API, MessageV2API, {
+        Image: (image) =>
+          MessageV2API.of.Image.Sent({
+            ...MessageV1API.Image.Sent.iso.get(image),
+            alt: '',
+          }),
+        Sticker: (sticker) =>
+          MessageV2API.of.Image.Sent({
+            ...MessageV1API.Sticker.Sent.iso.get(sticker),
+            alt: 'sticker',
+          }),
+      });
+
+      it('is a function between the two unions', () => {
+        expectType<(message: MessageV1) => MessageV2>(toV2);
+      });
+
+      it('maps members with the handlers', () => {
+        expect(toV2(MessageV1API.of.Image.Sent({ source: 'a.png' }))).toEqual(
+          MessageV2API.of.Image.Sent({ source: 'a.png', alt: '' }),
+        );
+
+        expect(toV2(MessageV1API.of.Sticker.Sent({ source: 'a.png' }))).toEqual(
+          MessageV2API.of.Image.Sent({ source: 'a.png', alt: 'sticker' }),
+        );
+      });
+
+      it('maps compatible members as is', () => {
+        expect(
+          toV2(MessageV1API.of.Text.Pending({ content: 'hello' })),
+        ).toEqual(MessageV2API.of.Text.Pending({ content: 'hello' }));
+      });
+
+      it('can override compatible members', () => {
+        const failAll = Union.mapTo(MessageV1API, MessageV2API, {
+          Text: () => MessageV2API.of.Text.Failed({ content: 'failed' }),
+          Image: (image) =>
+            MessageV2API.of.Image.Sent({
+              ...MessageV1API.Image.Sent.iso.get(image),
+              alt: '',
+            }),
+          Sticker: (sticker) =>
+            MessageV2API.of.Image.Sent({
+              ...MessageV1API.Sticker.Sent.iso.get(sticker),
+              alt: '',
+            }),
+        });
+
+        expect(
+          failAll(MessageV1API.of.Text.Sent({ content: 'hello' })),
+        ).toEqual(MessageV2API.of.Text.Failed({ content: 'failed' }));
+      });
+
+      it('requires handlers for incompatible members', () => {
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        expect(() => Union.mapTo(MessageV1API, MessageV2API, {})).toThrow(
+          'No handler found to map member "Sticker"',
+        );
+
+        // the target misses the Failed variation
+        expect(() =>
+          Union.mapTo(
+            MessageV2API,
+            MessageV1API,
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            {},
+          ),
+        ).toThrow('No handler found to map member "Text"');
+      });
+
+      it('throws on opaques of another union', () => {
+        expect(() =>
+          toV2(
+            // same type without namespace, but another brand
+            MessageV2API.of.Text.Sent({ content: 'hello' }),
+          ),
+        ).toThrow(Union.ForeignOpaqueError);
+      });
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { Ord } from 'fp-ts/Ord';
+import { sort } from 'fp-ts/ReadonlyArray';
+
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('ord', () => {
+      type Text = { content: string; sentAt: number };
+      type Image = { source: string };
+
+      const byDate: Ord<Text> = {
+        equals: (a, b) => a.sentAt === b.sentAt,
+        compare: (a, b) => {
+          if (a.sentAt === b.sentAt) {
+            return 0;
+          }
+
+          return a.sentAt < b.sentAt ? -1 : 1;
+        },
+      };
+
+      const UnionAPI = Union.ofVariations({
+        Text: {
+          Pending: Union.type<Text>({ ord: byDate }),
+          Sent: Union.type<Text>({ ord: byDate }),
+        },
+        Image: {
+          Pending: Union.type<Image>(),
+          Sent: Union.type<Image>(),
+        },
+      });
+
+      const text1 = UnionAPI.of.Text.Sent({ content: 'a', sentAt: 1 });
+      const text2 = UnionAPI.of.Text.Sent({ content: 'b', sentAt: 2 });
+      const pendingText = UnionAPI.of.Text.Pending({ content: 'c', sentAt: 3 });
+      const image1 = UnionAPI.of.Image.Sent({ source: 'a' });
+      const image2 = UnionAPI.of.Image.Sent({ source: 'b' });
+      const pendingImage = UnionAPI.of.Image.Pending({ source: 'c' });
+
+      it('orders by name, then variation, then payload', () => {
+        expect(
+          UnionAPI.sort([image1, text2, pendingImage, text1, pendingText]),
+        ).toEqual([pendingText, text1, text2, pendingImage, image1]);
+      });
+
+      it('keeps the order of payloads without ord', () => {
+        expect(UnionAPI.sort([image2, image1])).toEqual([image2, image1]);
+        expect(UnionAPI.sort([image1, image2])).toEqual([image1, image2]);
+      });
+
+      it('does not mutate the list', () => {
+        const list = [image1, text1];
+
+        UnionAPI.sort(list);
+
+        expect(list).toEqual([image1, text1]);
+      });
+
+      it('provides an fp-ts Ord', () => {
+        expect(UnionAPI.ord.compare(text1, text2)).toEqual(-1);
+        expect(UnionAPI.ord.compare(image1, text1)).toEqual(1);
+        expect(UnionAPI.ord.compare(image1, image2)).toEqual(0);
+
+        expect(sort(UnionAPI.ord)([image1, text2, text1])).toEqual([
+          text1,
+          text2,
+          image1,
+        ]);
+      });
+
+      it('keeps the declaration order in derived unions', () => {
+        const PickedAPI = Union.pick(UnionAPI, ['Image', 'Text']);
+
+        expect(PickedAPI.sort([image1, text1])).toEqual([text1, image1]);
+
+        const OmittedAPI = Union.omitVariations(UnionAPI, ['Pending']);
+
+        expect(OmittedAPI.sort([image1, text2, text1])).toEqual([
+          text1,
+          text2,
+          image1,
+        ]);
+      });
+
+      it('throws on opaques out of the union', () => {
+        const ImageAPI = Union.pick(UnionAPI, ['Image']);
+
+        expect(() => ImageAPI.sort([text1, text2] as never)).toThrow(
+          Union.ForeignOpaqueError,
+        );
+        expect(() =>
+          Union.omitVariations(UnionAPI, ['Pending']).ord.compare(
+            image1,
+            pendingImage as never,
+          ),
+        ).toThrow('Opaque "Image" with variation "Pending" does not belong');
+      });
+
+      it('puts the members of the first union first when merged', () => {
+        const VideoAPI = Union.ofVariations({
+          Video: {
+            Pending: Union.type<Image>(),
+            Sent: Union.type<Image>(),
+          },
+        });
+
+        const video = VideoAPI.of.Video.Sent({ source: 'a' });
+
+        expect(Union.merge(VideoAPI, UnionAPI).sort([image1, video])).toEqual([
+          video,
+          image1,
+        ]);
+        expect(Union.merge(UnionAPI, VideoAPI).sort([video, image1])).toEqual([
+          image1,
+          video,
+        ]);
+      });
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { expectType } from 'tsd';
+
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('recursion', () => {
+      type Expr =
+        | Union.Opaque<'Num', 'default'>
+        | Union.Opaque<'Add', 'default'>
+        | Union.Opaque<'Sum', 'default'>;
+
+      const ExprAPI = Union.of({
+        Num: Union.type<number>(),
+        Add: Union.type<{ left: Expr; right: Expr }>(),
+        Sum: Union.type<{ terms: Expr[] }>(),
+      });
+
+      const num = (value: number) => ExprAPI.of.Num(value);
+      const add = (left: Expr, right: Expr) => ExprAPI.of.Add({ left, right });
+
+      const evaluate = ExprAPI.cata<number>({
+        Num: (value) => value,
+        Add: ({ left, right }) => left + right,
+        Sum: ({ terms }) => terms.reduce((sum, term) => sum + term, 0),
+      });
+
+      it('declares recursive unions with their opaques', () => {
+        expectType<Expr>({} as Union.Type<typeof ExprAPI>);
+        expectType<Union.Type<typeof ExprAPI>>({} as Expr);
+      });
+
+      it('folds bottom-up', () => {
+        expect(evaluate(add(num(1), add(num(2), num(3))))).toEqual(6);
+        expect(
+          evaluate(ExprAPI.of.Sum({ terms: [num(1), add(num(2), num(3))] })),
+        ).toEqual(6);
+      });
+
+      it('gives the children to the paramorphisms', () => {
+        const show = ExprAPI.para<string>({
+          Num: (value) => String(value),
+          Add: ({ left, right }) => {
+            expectType<Expr>(left.opaque);
+            expectType<string>(left.result);
+
+            return ExprAPI.is.Num(right.opaque)
+              ? `${left.result} + ${right.result}`
+              : `${left.result} + (${right.result})`;
+          },
+          Sum: ({ terms }) =>
+            `sum(${terms.map(({ result }) => result).join(', ')})`,
+        });
+
+        expect(show(add(num(1), add(num(2), num(3))))).toEqual('1 + (2 + 3)');
+        expect(show(add(add(num(1), num(2)), num(3)))).toEqual('1 + 2 + 3');
+      });
+
+      it('does not overflow the stack on deep trees', () => {
+        let expr: Expr = num(0);
+
+        for (let index = 1; index <= 100000; index += 1) {
+          expr = add(expr, num(1));
+        }
+
+        expect(evaluate(expr)).toEqual(100000);
+      });
+
+      it('folds shared opaques once', () => {
+        const shared = add(num(1), num(2));
+
+        const count = jest.fn((value: number) => value);
+
+        const evaluateCounting = ExprAPI.cata<number>({
+          Num: count,
+          Add: ({ left, right }) => left + right,
+          Sum: ({ terms }) => terms.reduce((sum, term) => sum + term, 0),
+        });
+
+        expect(evaluateCounting(add(shared, shared))).toEqual(6);
+        expect(count).toHaveBeenCalledTimes(2);
+      });
+
+      it('gives the variations to the handlers', () => {
+        type Reply =
+          | Union.Opaque<'Text', 'Sent'>
+          | Union.Opaque<'Text', 'Pending'>
+          | Union.Opaque<'Thread', 'Sent'>;
+
+        const ThreadAPI = Union.ofVariations({
+          Text: {
+            Sent: Union.type<string>(),
+            Pending: Union.type<string>(),
+          },
+          Thread: {
+            Sent: Union.type<{ replies: Reply[] }>(),
+          },
+        });
+
+        const countPending = ThreadAPI.cata<number>({
+          Text: (_text, variation) => (variation === 'Pending' ? 1 : 0),
+          Thread: ({ replies }) =>
+            replies.reduce((sum, replyCount) => sum + replyCount, 0),
+        });
+
+        expect(
+          countPending(
+            ThreadAPI.of.Thread.Sent({
+              replies: [
+                ThreadAPI.of.Text.Pending('a'),
+                ThreadAPI.of.Thread.Sent({
+                  replies: [
+                    ThreadAPI.of.Text.Sent('b'),
+                    ThreadAPI.of.Text.Pending('c'),
+                  ],
+                }),
+              ],
+            }),
+          ),
+        ).toEqual(2);
+      });
+
+      it('throws on opaques of another union', () => {
+        const OtherAPI = Union.of({ Num: Union.type<number>() });
+
+        expect(() => evaluate(OtherAPI.of.Num(1))).toThrow(
+          Union.ForeignOpaqueError,
+        );
+      });
+    });
+  });
+});
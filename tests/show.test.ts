@@ -0,0 +1,134 @@
+import { inspect } from 'util';
+
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('show', () => {
+      type Text = { content: string; author: string };
+      type Image = { source: string; size: [number, number] };
+      type Thread = { messages: unknown[] };
+
+      const UnionAPI = Union.ofVariations(
+        {
+          Text: {
+            Sent: Union.type<Text>({
+              redact: ['author'],
+              validate: (thing: unknown): thing is Text =>
+                typeof thing === 'object' &&
+                thing !== null &&
+                (thing as Text).content !== '',
+            }),
+          },
+          Image: {
+            default: Union.type<Image>(),
+            Sent: Union.type<Image>({
+              show: ({ source }) => `<${source}>`,
+            }),
+          },
+          Thread: {
+            default: Union.type<Thread>(),
+          },
+          Count: {
+            default: Union.type<number>(),
+          },
+        },
+        { strict: true },
+      );
+
+      const text = UnionAPI.of.Text.Sent({ content: 'hello', author: 'me' });
+      const image = UnionAPI.of.Image.default({
+        source: 'a.png',
+        size: [1, 2],
+      });
+
+      it('prints the name, the variation and the payload', () => {
+        expect(UnionAPI.show(text)).toEqual(
+          'Text.Sent({ content: "hello", author: <redacted> })',
+        );
+        expect(UnionAPI.show(UnionAPI.of.Count.default(1))).toEqual('Count(1)');
+      });
+
+      it('omits the default variation', () => {
+        expect(UnionAPI.show(image)).toEqual(
+          'Image({ source: "a.png", size: [1, 2] })',
+        );
+      });
+
+      it('uses the formatter of the member', () => {
+        expect(
+          UnionAPI.show(
+            UnionAPI.of.Image.Sent({ source: 'a.png', size: [1, 2] }),
+          ),
+        ).toEqual('Image.Sent(<a.png>)');
+      });
+
+      it('prints nested opaques', () => {
+        expect(
+          UnionAPI.show(UnionAPI.of.Thread.default({ messages: [text] })),
+        ).toEqual(
+          'Thread({ messages: [Text.Sent({ content: "hello", author: <redacted> })] })',
+        );
+      });
+
+      it('prints opaques with util.inspect and in strings', () => {
+        expect(inspect(image)).toEqual(
+          'Image({ source: "a.png", size: [1, 2] })',
+        );
+        expect(`${image}`).toEqual('Image({ source: "a.png", size: [1, 2] })');
+      });
+
+      it('keeps opaques plain data', () => {
+        expect(Object.keys(text)).toEqual([
+          '__OPAQUE__',
+          '__OPAQUE_KEY__',
+          '__OPAQUE_VARIATION__',
+          '__OPAQUE_BRAND__',
+          'value',
+        ]);
+        expect(JSON.parse(JSON.stringify(image)).value).toEqual({
+          source: 'a.png',
+          size: [1, 2],
+        });
+      });
+
+      it('prints invalid payloads in errors', () => {
+        expect(() =>
+          UnionAPI.of.Text.Sent({ content: '', author: 'me' }),
+        ).toThrow(
+          'Invalid payload for member "Text" with variation "Sent": Text.Sent({ content: "", author: <redacted> })',
+        );
+      });
+
+      it('prints foreign opaques in errors', () => {
+        const OtherAPI = Union.of({ Text: Union.type<Text>() });
+        const foreign = OtherAPI.of.Text({ content: 'hello', author: 'me' });
+
+        expect(() =>
+          UnionAPI.foldAll({
+            Text: { Sent: () => 'text' },
+            Image: { default: () => 'image', Sent: () => 'image' },
+            Thread: { default: () => 'thread' },
+            Count: { default: () => 'count' },
+          })(
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            foreign,
+          ),
+        ).toThrow(
+          'No handler found to fold Text({ content: "hello", author: "me" })',
+        );
+
+        expect(() =>
+          UnionAPI.Text.Sent.lensFromProp('content').get(
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            foreign,
+          ),
+        ).toThrow(
+          'Opaque "Text" with variation "default" does not belong to this union: Text({ content: "hello", author: "me" })',
+        );
+      });
+    });
+  });
+});
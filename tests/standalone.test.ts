@@ -0,0 +1,117 @@
+import { none, some } from 'fp-ts/Option';
+import { expectType } from 'tsd';
+
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('standalone', () => {
+      type Text = { content: string };
+      type Image = { source: string };
+
+      const Message = Union.descriptorOfVariations({
+        Text: {
+          Sent: Union.type<Text>(),
+          Pending: Union.type<Text>(),
+        },
+        Image: {
+          Sent: Union.type<Image>(),
+        },
+      });
+
+      const Media = Union.descriptor({
+        Image: Union.type<Image>(),
+        Video: Union.type<{ url: string }>(),
+      });
+
+      const textSent = Union.construct(Message, 'Text', 'Sent');
+
+      const text = textSent({ content: 'hello' });
+      const image = Union.construct(Media, 'Image')({ source: 'a.png' });
+
+      it('creates members', () => {
+        expectType<Union.Opaque<'Text', 'Sent'>>(text);
+        expectType<Union.Opaque<'Image', 'default'>>(image);
+
+        expect(() =>
+          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+          // @ts-expect-error
+          Union.construct(Message, 'Text')({ content: 'hello' }),
+        ).toThrow(Union.UnknownMemberError);
+      });
+
+      it('guards members', () => {
+        expect(Union.is(Message)(text)).toEqual(true);
+        expect(Union.is(Message, 'Text')(text)).toEqual(true);
+        expect(Union.is(Message, 'Text', 'Pending')(text)).toEqual(false);
+        expect(Union.is(Message, 'Image')(text)).toEqual(false);
+        expect(Union.is(Message)(image)).toEqual(false);
+        expect(Union.is(Media, 'Image')(image)).toEqual(true);
+
+        const thing: unknown = text;
+
+        if (Union.is(Message, 'Text', 'Sent')(thing)) {
+          expectType<Union.Opaque<'Text', 'Sent'>>(thing);
+        }
+      });
+
+      it('folds and matches', () => {
+        const kind = Union.fold(Message)({
+          Text: () => 'text',
+          Image: () => 'image',
+        });
+
+        expect(kind(text)).toEqual('text');
+
+        expect(
+          Union.match(Media)({ Image: () => 'image', _: () => 'other' })(image),
+        ).toEqual('image');
+      });
+
+      it('has the optics of the members', () => {
+        expect(Union.iso(Message, 'Text', 'Sent').get(text)).toEqual({
+          content: 'hello',
+        });
+        expect(Union.iso(Media, 'Image').get(image)).toEqual({
+          source: 'a.png',
+        });
+
+        const prism = Union.prism(Message, 'Text', 'Sent');
+
+        expect(prism.getOption(text)).toEqual(some({ content: 'hello' }));
+        expect(
+          prism.getOption(
+            Union.construct(Message, 'Text', 'Pending')({ content: 'hello' }),
+          ),
+        ).toEqual(none);
+
+        const content = Union.lens(Message, 'Text', 'Sent', 'content');
+
+        expectType<string>(content.get(text));
+        expect(content.get(content.set('bye')(text))).toEqual('bye');
+
+        expect(Union.lens(Media, 'Image', 'source').get(image)).toEqual(
+          'a.png',
+        );
+      });
+
+      it('works on union apis', () => {
+        const MessageAPI = Union.ofVariations(Message.types, {
+          namespace: 'message',
+        });
+
+        const sent = MessageAPI.of.Text.Sent({ content: 'hello' });
+
+        expect(Union.is(MessageAPI, 'Text', 'Sent')(sent)).toEqual(true);
+        expect(Union.is(MessageAPI)(text)).toEqual(false);
+        expect(
+          Union.lens(MessageAPI, 'Text', 'Sent', 'content').get(sent),
+        ).toEqual('hello');
+
+        expectType<Union.Opaque<'Text', 'Sent', 'message'>>(
+          Union.construct(MessageAPI, 'Text', 'Sent')({ content: 'hello' }),
+        );
+      });
+    });
+  });
+});
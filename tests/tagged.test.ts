@@ -0,0 +1,292 @@
+import { expectType } from 'tsd';
+
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('tagged', () => {
+      type Record = { content: string };
+      type Valued = { value: number };
+      type Boxed = { _value: number; other: number };
+      type Labelled = { _tag: string; _variation: string };
+
+      class Point {
+        constructor(public x: number) {}
+      }
+
+      const UnionAPI = Union.ofVariations({
+        Text: { Sent: Union.type<string>(), Pending: Union.type<string>() },
+        Count: { Sent: Union.type<number>() },
+        Flag: { Sent: Union.type<boolean>() },
+        Empty: { Sent: Union.type<null>() },
+        Missing: { Sent: Union.type<undefined>() },
+        List: { Sent: Union.type<string[]>() },
+        Date: { Sent: Union.type<Date>() },
+        Record: { Sent: Union.type<Record>() },
+        Valued: { Sent: Union.type<Valued>() },
+        Boxed: { Sent: Union.type<Boxed>() },
+        Point: { Sent: Union.type<Point>() },
+        Labelled: { Sent: Union.type<Labelled>() },
+        Either: { Sent: Union.type<string | Record>() },
+      });
+
+      const opaques = [
+        UnionAPI.of.Text.Sent('hello'),
+        UnionAPI.of.Text.Pending(''),
+        UnionAPI.of.Count.Sent(0),
+        UnionAPI.of.Flag.Sent(false),
+        UnionAPI.of.Empty.Sent(null),
+        UnionAPI.of.Missing.Sent(undefined),
+        UnionAPI.of.List.Sent(['a', 'b']),
+        UnionAPI.of.Date.Sent(new Date(0)),
+        UnionAPI.of.Record.Sent({ content: 'hello' }),
+        UnionAPI.of.Valued.Sent({ value: 1 }),
+        UnionAPI.of.Boxed.Sent({ _value: 1, other: 2 }),
+        UnionAPI.of.Point.Sent(new Point(1)),
+        UnionAPI.of.Labelled.Sent({ _tag: 'label', _variation: 'label' }),
+        UnionAPI.of.Either.Sent('hello'),
+        UnionAPI.of.Either.Sent({ content: 'hello' }),
+      ];
+
+      it('wraps the payloads that are not records', () => {
+        expect(UnionAPI.iso.get(UnionAPI.of.Count.Sent(0))).toEqual({
+          _tag: 'Count',
+          _variation: 'Sent',
+          _value: 0,
+        });
+        expect(UnionAPI.iso.get(UnionAPI.of.List.Sent(['a']))).toEqual({
+          _tag: 'List',
+          _variation: 'Sent',
+          _value: ['a'],
+        });
+        expect(UnionAPI.iso.get(UnionAPI.of.Valued.Sent({ value: 1 }))).toEqual(
+          { _tag: 'Valued', _variation: 'Sent', value: 1 },
+        );
+
+        expectType<{ readonly _value: string[] }>(
+          {} as Union.Tagged<'List', 'Sent', string[]>,
+        );
+        expectType<{ readonly _value: Boxed }>(
+          {} as Union.Tagged<'Boxed', 'Sent', Boxed>,
+        );
+        expectType<
+          | ({ readonly _value: string } & { readonly _tag: 'Either' })
+          | (Record & { readonly _tag: 'Either' })
+        >({} as Union.Tagged<'Either', 'Sent', string | Record>);
+      });
+
+      it('wraps the records that have their own _value', () => {
+        const boxed = UnionAPI.of.Boxed.Sent({ _value: 1, other: 2 });
+
+        expect(UnionAPI.iso.get(boxed)).toEqual({
+          _tag: 'Boxed',
+          _variation: 'Sent',
+          _value: { _value: 1, other: 2 },
+        });
+        expect(
+          UnionAPI.Boxed.Sent.iso.get(
+            UnionAPI.iso.reverseGet(UnionAPI.iso.get(boxed)) as never,
+          ),
+        ).toEqual({ _value: 1, other: 2 });
+      });
+
+      it('wraps the class instances', () => {
+        const point = new Point(1);
+        const tagged = UnionAPI.iso.get(UnionAPI.of.Point.Sent(point));
+
+        expect(tagged).toEqual({
+          _tag: 'Point',
+          _variation: 'Sent',
+          _value: point,
+        });
+
+        const opaque = UnionAPI.iso.reverseGet(tagged);
+
+        expect(UnionAPI.is.Point(opaque)).toBe(true);
+        expect(UnionAPI.Point.Sent.iso.get(opaque as never)).toBeInstanceOf(
+          Point,
+        );
+      });
+
+      it('wraps the records that have the keys of the tags', () => {
+        expect(
+          UnionAPI.iso.get(
+            UnionAPI.of.Labelled.Sent({ _tag: 'label', _variation: 'label' }),
+          ),
+        ).toEqual({
+          _tag: 'Labelled',
+          _variation: 'Sent',
+          _value: { _tag: 'label', _variation: 'label' },
+        });
+
+        expectType<{ readonly _value: Labelled }>(
+          {} as Union.Tagged<'Labelled', 'Sent', Labelled>,
+        );
+      });
+
+      it('follows the iso laws with the global iso', () => {
+        opaques.forEach((opaque) => {
+          const tagged = UnionAPI.iso.get(opaque);
+
+          expect(UnionAPI.equals(UnionAPI.iso.reverseGet(tagged), opaque)).toBe(
+            true,
+          );
+          expect(UnionAPI.iso.get(UnionAPI.iso.reverseGet(tagged))).toEqual(
+            tagged,
+          );
+        });
+      });
+
+      it('follows the iso laws with the variations isos', () => {
+        const { iso } = UnionAPI.Sent;
+
+        opaques
+          .filter((opaque) => UnionAPI.is.Sent(opaque))
+          .forEach((opaque) => {
+            const tagged = iso.get(opaque as never);
+
+            expect(UnionAPI.equals(iso.reverseGet(tagged), opaque)).toBe(true);
+            expect(iso.get(iso.reverseGet(tagged))).toEqual(tagged);
+          });
+      });
+
+      describe('keys', () => {
+        const ActionAPI = Union.ofVariations(
+          {
+            Text: { Sent: Union.type<Record>(), Pending: Union.type<Record>() },
+            Count: { Sent: Union.type<number>() },
+          },
+          { tagKey: 'type', variationKey: 'status' },
+        );
+
+        type Action = Union.Type<typeof ActionAPI>;
+
+        const text = ActionAPI.of.Text.Pending({ content: 'hello' });
+
+        it('uses the keys given to the union', () => {
+          const tagged = ActionAPI.iso.get(text);
+
+          expect(tagged).toEqual({
+            type: 'Text',
+            status: 'Pending',
+            content: 'hello',
+          });
+          expect(ActionAPI.Sent.iso.get(ActionAPI.of.Count.Sent(1))).toEqual({
+            type: 'Count',
+            status: 'Sent',
+            _value: 1,
+          });
+
+          expectType<
+            | Union.Tagged<
+                'Text',
+                'Sent' | 'Pending',
+                Record,
+                { tag: 'type'; variation: 'status' }
+              >
+            | Union.Tagged<
+                'Count',
+                'Sent',
+                number,
+                { tag: 'type'; variation: 'status' }
+              >
+          >(tagged);
+          expectType<'Text' | 'Count'>(tagged.type);
+
+          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+          // @ts-expect-error
+          expect(tagged._tag).toBeUndefined();
+        });
+
+        it('follows the iso laws', () => {
+          const tagged = {
+            type: 'Count' as const,
+            status: 'Sent' as const,
+            _value: 1,
+          };
+
+          expect(ActionAPI.iso.get(ActionAPI.iso.reverseGet(tagged))).toEqual(
+            tagged,
+          );
+          expect(
+            ActionAPI.equals(
+              ActionAPI.Pending.iso.reverseGet(ActionAPI.Pending.iso.get(text)),
+              text,
+            ),
+          ).toBe(true);
+        });
+
+        it('wraps the records that have the keys of the tags', () => {
+          const LabelAPI = Union.of(
+            { Label: Union.type<{ type: string; content: string }>() },
+            { tagKey: 'type', variationKey: 'status' },
+          );
+
+          const label = LabelAPI.of.Label({ type: 'bold', content: 'hello' });
+          const tagged = LabelAPI.iso.get(label);
+
+          expect(tagged).toEqual({
+            type: 'Label',
+            status: 'default',
+            _value: { type: 'bold', content: 'hello' },
+          });
+          expect(LabelAPI.equals(LabelAPI.iso.reverseGet(tagged), label)).toBe(
+            true,
+          );
+          expect(LabelAPI.iso.get(LabelAPI.iso.reverseGet(tagged))).toEqual(
+            tagged,
+          );
+        });
+
+        it('rejects equal keys', () => {
+          expect(() =>
+            Union.of(
+              { Count: Union.type<number>() },
+              // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+              // @ts-expect-error
+              { tagKey: 'type', variationKey: 'type' },
+            ),
+          ).toThrow(Union.UnionError);
+          expect(() =>
+            Union.ofVariations(
+              { Count: { Sent: Union.type<number>() } },
+              // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+              // @ts-expect-error
+              { tagKey: '_variation' },
+            ),
+          ).toThrow(Union.UnionError);
+        });
+
+        it('rejects _value as a key', () => {
+          expect(() =>
+            Union.of(
+              { Text: Union.type<string>() },
+              // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+              // @ts-expect-error
+              { tagKey: '_value' },
+            ),
+          ).toThrow(Union.UnionError);
+          expect(() =>
+            Union.ofVariations(
+              { Text: { Sent: Union.type<string>() } },
+              // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+              // @ts-expect-error
+              { variationKey: '_value' },
+            ),
+          ).toThrow(Union.UnionError);
+        });
+
+        it('keeps the keys in derived unions', () => {
+          const TextAPI = Union.omit(ActionAPI, ['Count']);
+
+          expect(TextAPI.iso.get(text)).toEqual({
+            type: 'Text',
+            status: 'Pending',
+            content: 'hello',
+          });
+          expectType<Action>({} as Union.Type<typeof TextAPI>);
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { expectType } from 'tsd';
+
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('transitions', () => {
+      type Text = { content: string };
+      type SentText = { content: string; sentAt: number };
+
+      const UnionAPI = Union.ofVariations(
+        {
+          Text: {
+            Pending: Union.type<Text>(),
+            Sent: Union.type<SentText>(),
+            Failed: Union.type<Text>(),
+          },
+        },
+        {
+          transitions: {
+            Pending: ['Sent', 'Failed'],
+            Failed: ['Pending'],
+          },
+        },
+      );
+
+      it('exposes a function for each declared transition', () => {
+        const pending = UnionAPI.of.Text.Pending({ content: 'hello' });
+
+        const sent = UnionAPI.Text.transition.Pending.Sent(
+          pending,
+          (payload) => ({ ...payload, sentAt: 1 }),
+        );
+
+        expectType<Union.Opaque<'Text', 'Sent'>>(sent);
+
+        expect(sent).toEqual(
+          UnionAPI.of.Text.Sent({ content: 'hello', sentAt: 1 }),
+        );
+
+        const failed = UnionAPI.Text.transition.Pending.Failed(
+          pending,
+          (payload) => payload,
+        );
+
+        expect(
+          UnionAPI.Text.transition.Failed.Pending(failed, (payload) => payload),
+        ).toEqual(pending);
+      });
+
+      it('only exposes declared transitions', () => {
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        expect(UnionAPI.Text.transition.Sent).toEqual(undefined);
+
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        expect(UnionAPI.Text.transition.Failed.Sent).toEqual(undefined);
+      });
+
+      it('types the payload of the target variation', () => {
+        const pending = UnionAPI.of.Text.Pending({ content: 'hello' });
+
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        UnionAPI.Text.transition.Pending.Sent(pending, (payload) => payload);
+      });
+
+      it('throws on opaques of another variation', () => {
+        const sent = UnionAPI.of.Text.Sent({ content: 'hello', sentAt: 1 });
+
+        expect(() =>
+          UnionAPI.Text.transition.Pending.Failed(
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            sent,
+            (payload) => payload,
+          ),
+        ).toThrow(
+          new Union.IllegalTransitionError(
+            'Text',
+            'Sent',
+            'Failed',
+            'Text.Sent({ content: "hello", sentAt: 1 })',
+          ),
+        );
+      });
+
+      it('exposes the transitions graph', () => {
+        expect(UnionAPI.transitions).toEqual({
+          Pending: ['Sent', 'Failed'],
+          Failed: ['Pending'],
+        });
+
+        expect(UnionAPI.canTransition('Pending', 'Sent')).toEqual(true);
+        expect(UnionAPI.canTransition('Sent', 'Pending')).toEqual(false);
+        expect(
+          UnionAPI.canTransition('toString' as never, 'Sent' as never),
+        ).toEqual(false);
+      });
+
+      it('rejects unknown variations', () => {
+        expect(() =>
+          Union.ofVariations(
+            { Text: { Pending: Union.type<Text>() } },
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            { transitions: { Pending: ['Sent'] } },
+          ),
+        ).toThrow(
+          new Union.UnionError('Unknown variation "Sent" in transitions'),
+        );
+      });
+
+      it('only exposes the transitions between the member variations', () => {
+        type Video = { source: string };
+
+        const MessageAPI = Union.ofVariations(
+          {
+            Text: {
+              Pending: Union.type<Text>(),
+              Sent: Union.type<Text>(),
+            },
+            Video: {
+              Uploading: Union.type<Video>(),
+              Ready: Union.type<Video>(),
+            },
+          },
+          {
+            transitions: {
+              Pending: ['Sent'],
+              Uploading: ['Ready'],
+            },
+          },
+        );
+
+        const video = MessageAPI.of.Video.Uploading({ source: 'http://' });
+
+        expect(
+          MessageAPI.Video.transition.Uploading.Ready(
+            video,
+            (payload) => payload,
+          ),
+        ).toEqual(MessageAPI.of.Video.Ready({ source: 'http://' }));
+
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        expect(MessageAPI.Text.transition.Uploading).toEqual(undefined);
+      });
+
+      it('is absent without transitions', () => {
+        const SimpleAPI = Union.ofVariations({
+          Text: { Pending: Union.type<Text>() },
+        });
+
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-expect-error
+        expect(SimpleAPI.transitions).toEqual(undefined);
+      });
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { expectType } from 'tsd';
+
+import * as Union from '../src/index';
+
+describe('packages', () => {
+  describe('union', () => {
+    describe('update', () => {
+      type Text = { content: string; sentAt: number };
+      type Image = { source: string };
+
+      const UnionAPI = Union.ofVariations({
+        Text: {
+          Pending: Union.type<Text>(),
+          Sent: Union.type<Text>(),
+        },
+        Image: {
+          Sent: Union.type<Image>(),
+        },
+      });
+
+      const text = UnionAPI.of.Text.Sent({ content: 'hello', sentAt: 1 });
+      const image = UnionAPI.of.Image.Sent({ source: 'a.png' });
+
+      it('updates the payload of a member', () => {
+        const updated = UnionAPI.Text.update(text, { content: 'hello world' });
+
+        expectType<Union.Opaque<'Text', 'Sent', unknown>>(updated);
+        expect(UnionAPI.Text.Sent.iso.get(updated)).toEqual({
+          content: 'hello world',
+          sentAt: 1,
+        });
+        expect(UnionAPI.Text.Sent.iso.get(text)).toEqual({
+          content: 'hello',
+          sentAt: 1,
+        });
+      });
+
+      it('keeps the name and the variation', () => {
+        const pending = UnionAPI.of.Text.Pending({ content: 'a', sentAt: 1 });
+
+        const updated = UnionAPI.Text.update(pending, { sentAt: 2 });
+
+        expect(UnionAPI.is.Text.Pending(updated)).toEqual(true);
+      });
+
+      it('modifies the payload of a member', () => {
+        const updated = UnionAPI.Text.modify(text, (payload) => ({
+          ...payload,
+          sentAt: payload.sentAt + 1,
+        }));
+
+        expect(UnionAPI.Text.Sent.iso.get(updated).sentAt).toEqual(2);
+      });
+
+      it('has variation level forms', () => {
+        expect(
+          UnionAPI.Text.Sent.iso.get(
+            UnionAPI.Text.Sent.update(text, { content: 'a' }),
+          ).content,
+        ).toEqual('a');
+
+        expect(
+          UnionAPI.Text.Sent.iso.get(
+            UnionAPI.Sent.Text.modify(text, (payload) => ({
+              ...payload,
+              content: 'b',
+            })),
+          ).content,
+        ).toEqual('b');
+
+        expect(
+          UnionAPI.Image.Sent.iso.get(
+            UnionAPI.Sent.update(image, { source: 'b.png' }),
+          ),
+        ).toEqual({ source: 'b.png' });
+
+        expect(() =>
+          UnionAPI.Text.Sent.update(
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            UnionAPI.of.Text.Pending({ content: 'a', sentAt: 1 }),
+            { content: 'b' },
+          ),
+        ).toThrow(Union.ForeignOpaqueError);
+      });
+
+      it('only updates the opaques of its member', () => {
+        const pending = UnionAPI.of.Text.Pending({ content: 'a', sentAt: 1 });
+
+        expect(() =>
+          UnionAPI.Text.update(image as unknown as typeof text, {
+            content: 'b',
+          }),
+        ).toThrow(Union.ForeignOpaqueError);
+        expect(() =>
+          UnionAPI.Text.modify(
+            image as unknown as typeof text,
+            (payload) => payload,
+          ),
+        ).toThrow(Union.ForeignOpaqueError);
+        expect(() =>
+          UnionAPI.Text.Sent.update(pending as unknown as typeof text, {
+            content: 'b',
+          }),
+        ).toThrow(Union.ForeignOpaqueError);
+        expect(() =>
+          UnionAPI.Sent.Text.modify(
+            image as unknown as typeof text,
+            (payload) => payload,
+          ),
+        ).toThrow(Union.ForeignOpaqueError);
+        expect(() =>
+          UnionAPI.Sent.update(pending as unknown as typeof text, {
+            content: 'b',
+          }),
+        ).toThrow(Union.ForeignOpaqueError);
+      });
+
+      it('updates any member of the union', () => {
+        const messages = [text, image];
+
+        const updated = messages.map((message) => UnionAPI.update(message, {}));
+
+        expect(updated).toEqual(messages);
+
+        expect(
+          UnionAPI.Image.Sent.iso.get(
+            UnionAPI.update(image, { source: 'b.png' }),
+          ),
+        ).toEqual({ source: 'b.png' });
+
+        UnionAPI.update(
+          image,
+          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+          // @ts-expect-error
+          { content: 'hello' },
+        );
+      });
+
+      it('returns the same opaque when nothing changed', () => {
+        expect(UnionAPI.Text.update(text, { content: 'hello' })).toBe(text);
+        expect(UnionAPI.Text.update(text, {})).toBe(text);
+        expect(UnionAPI.Text.modify(text, (payload) => payload)).toBe(text);
+        expect(UnionAPI.update(image, { source: 'a.png' })).toBe(image);
+      });
+
+      it('only updates plain object payloads', () => {
+        const OtherAPI = Union.of({
+          Text: Union.type<string>(),
+          List: Union.type<string[]>(),
+        });
+
+        expect(() =>
+          OtherAPI.Text.update(
+            OtherAPI.of.Text('abc'),
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            { x: 1 },
+          ),
+        ).toThrow(
+          new Union.UnionError(
+            'Cannot update a payload that is not a plain object: Text("abc")',
+          ),
+        );
+        expect(() =>
+          OtherAPI.List.update(
+            OtherAPI.of.List(['a']),
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-expect-error
+            { 0: 'b' },
+          ),
+        ).toThrow(Union.UnionError);
+        expect(
+          OtherAPI.List.iso.get(
+            OtherAPI.List.modify(OtherAPI.of.List(['a']), (list) => [
+              ...list,
+              'b',
+            ]),
+          ),
+        ).toEqual(['a', 'b']);
+      });
+
+      it('validates the new payload in strict mode', () => {
+        const StrictAPI = Union.of(
+          {
+            Text: Union.type<Text>({
+              validate: (thing: unknown): thing is Text =>
+                typeof thing === 'object' &&
+                thing !== null &&
+                (thing as Text).content !== '',
+            }),
+          },
+          { strict: true },
+        );
+
+        expect(() =>
+          StrictAPI.Text.update(
+            StrictAPI.of.Text({ content: 'a', sentAt: 1 }),
+            { content: '' },
+          ),
+        ).toThrow(Union.InvalidPayloadError);
+      });
+    });
+  });
+});